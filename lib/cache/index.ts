@@ -0,0 +1,63 @@
+/**
+ * tana/cache - Addis Cache Helpers
+ *
+ * Pages, layouts and API handlers declare how cacheable they are with route
+ * exports, which the generated router reads:
+ *
+ *   export const revalidate = 60            // seconds a response stays fresh (false: until revalidated)
+ *   export const dynamic = 'force-dynamic'  // never cache ('force-static': cache until revalidated)
+ *   export const tags = ['posts']           // cache tags of every response of the route
+ *
+ * API responses get Cache-Control, Cache-Tag and ETag headers (a matching
+ * If-None-Match answers 304), and cacheable pages are rendered once per URL.
+ * Handlers tag individual responses with cacheTag(), and a mutation calls
+ * revalidateTag() so everything carrying the tag is refreshed:
+ *
+ *   import { cacheTag, revalidateTag } from 'tana/cache'
+ *
+ *   // api/posts/get.ts
+ *   return cacheTag(json(posts), 'posts')
+ *
+ *   // api/posts/post.ts
+ *   await createPost(request.body)
+ *   revalidateTag('posts')
+ *
+ * Compiled once into tana contracts, so tag versions are shared by every
+ * route of a contract instance. They live in that instance's memory: other
+ * instances, prerendered files and shared caches (CDNs) never see a
+ * revalidateTag() call. Tagged routes are therefore not prerendered, and
+ * tagged responses get Cache-Control: no-cache instead of an s-maxage.
+ */
+
+export type Dynamic = 'auto' | 'force-dynamic' | 'force-static'
+
+/** Response header listing the cache tags of a response (comma-separated) */
+export const CACHE_TAG_HEADER = 'Cache-Tag'
+
+/** Bumped by revalidateTag() - cached pages remember the versions they were rendered at */
+const TAG_VERSIONS = new Map<string, number>()
+
+/**
+ * Add cache tags to an API response
+ */
+export function cacheTag<T extends { headers?: Record<string, string> }>(response: T, ...tags: string[]): T {
+  const existing = response.headers?.[CACHE_TAG_HEADER]
+  const allTags = [...(existing ? existing.split(',') : []), ...tags]
+  return { ...response, headers: { ...response.headers, [CACHE_TAG_HEADER]: [...new Set(allTags)].join(',') } }
+}
+
+/**
+ * Mark everything tagged with `tag` as stale
+ * Cached pages carrying the tag render again on their next request - in this
+ * contract instance only (the page cache is per-instance memory)
+ */
+export function revalidateTag(tag: string): void {
+  TAG_VERSIONS.set(tag, (TAG_VERSIONS.get(tag) ?? 0) + 1)
+}
+
+/**
+ * Version of a set of tags - changes whenever one of them is revalidated
+ */
+export function tagVersion(tags: string[]): string {
+  return tags.map(tag => TAG_VERSIONS.get(tag) ?? 0).join('.')
+}
@@ -0,0 +1,60 @@
+/**
+ * tana/middleware - Addis Middleware Helpers
+ *
+ * A middleware.ts in app/ or api/ runs before every page or handler below
+ * its directory, outer → inner. Its default export receives the request and
+ * either passes through, rewrites the request, or short-circuits:
+ *
+ *   import { next, rewrite } from 'tana/middleware'
+ *
+ *   export default function middleware(request) {
+ *     if (!request.headers?.authorization) {
+ *       return { status: 401, body: { error: 'Unauthorized' } }
+ *     }
+ *     if (request.path === '/old') return rewrite('/new')
+ *     return next({ headers: { 'x-request-start': String(Date.now()) } })
+ *   }
+ *
+ * Returning nothing also passes through, and redirect() / notFound() from
+ * tana/navigation can be thrown as usual. The chain is picked from the route
+ * the request matched, so a rewrite re-matches the route without re-running
+ * middleware. Compiled once into tana contracts.
+ */
+
+/** Marks next() / rewrite() results, so any other return value is a response */
+export const MIDDLEWARE_DIGEST = 'ADDIS_MIDDLEWARE'
+
+export interface MiddlewareOptions {
+  /** Headers added to the request seen by later middleware and the route */
+  headers?: Record<string, string>
+  /** Headers added to the final API response (ignored for pages) */
+  responseHeaders?: Record<string, string>
+}
+
+export interface MiddlewareResult extends MiddlewareOptions {
+  readonly digest: typeof MIDDLEWARE_DIGEST
+  /** Path to route to instead of the requested one (rewrite only) */
+  path?: string
+}
+
+/**
+ * Continue to the next middleware, then the page or handler
+ */
+export function next(options: MiddlewareOptions = {}): MiddlewareResult {
+  return { digest: MIDDLEWARE_DIGEST, ...options }
+}
+
+/**
+ * Continue with a different path - the URL seen by the client is unchanged
+ * @param path - Path to match instead, relative to app/ or api/ (e.g. '/posts/1')
+ */
+export function rewrite(path: string, options: MiddlewareOptions = {}): MiddlewareResult {
+  return { digest: MIDDLEWARE_DIGEST, ...options, path }
+}
+
+/**
+ * Check whether a middleware return value came from next() or rewrite()
+ */
+export function isMiddlewareResult(value: unknown): value is MiddlewareResult {
+  return (value as { digest?: unknown } | null)?.digest === MIDDLEWARE_DIGEST
+}
@@ -0,0 +1,77 @@
+/**
+ * tana/navigation - Addis Navigation Helpers
+ *
+ * Control-flow helpers for pages, layouts and API handlers.
+ * Compiled once into tana contracts at build time. The generated router catches
+ * what they throw: notFound() renders the nearest not-found.tsx (404 for API
+ * handlers) and redirect() sends the client to another URL.
+ */
+
+/**
+ * Digests mark navigation errors with a plain string, so they can be
+ * recognised after serialization (e.g. by tana-edge) where classes are lost
+ */
+export const NOT_FOUND_DIGEST = 'ADDIS_NOT_FOUND'
+export const REDIRECT_DIGEST = 'ADDIS_REDIRECT'
+
+export type RedirectStatus = 301 | 302 | 303 | 307 | 308
+
+export class NotFoundError extends Error {
+  readonly digest = NOT_FOUND_DIGEST
+
+  constructor() {
+    super('Not found')
+    this.name = 'NotFoundError'
+  }
+}
+
+export class RedirectError extends Error {
+  readonly digest = REDIRECT_DIGEST
+
+  constructor(
+    readonly url: string,
+    readonly status: RedirectStatus
+  ) {
+    super(`Redirect to ${url}`)
+    this.name = 'RedirectError'
+  }
+}
+
+/**
+ * Stop rendering and show the nearest not-found.tsx
+ * In API handlers, responds with 404
+ */
+export function notFound(): never {
+  throw new NotFoundError()
+}
+
+/**
+ * Stop rendering and send the client to another URL
+ * @param status - HTTP status for API handlers (default 307 Temporary Redirect)
+ */
+export function redirect(url: string, status: RedirectStatus = 307): never {
+  throw new RedirectError(url, status)
+}
+
+/**
+ * Like redirect(), but with 308 Permanent Redirect
+ */
+export function permanentRedirect(url: string): never {
+  throw new RedirectError(url, 308)
+}
+
+/**
+ * Check whether an error was thrown by notFound()
+ * Use this to rethrow from your own try/catch blocks
+ */
+export function isNotFoundError(error: unknown): error is NotFoundError {
+  return (error as { digest?: unknown } | null)?.digest === NOT_FOUND_DIGEST
+}
+
+/**
+ * Check whether an error was thrown by redirect()
+ * Use this to rethrow from your own try/catch blocks
+ */
+export function isRedirectError(error: unknown): error is RedirectError {
+  return (error as { digest?: unknown } | null)?.digest === REDIRECT_DIGEST
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { scanProject } from './routes.js'
+import { generateApiClientModule, generateApiClientTypes } from './api-client.js'
+import { writeProject } from './test-utils.js'
+
+/** Import a generated virtual:addis-api module */
+async function loadClient(options: { basePath?: string } = {}) {
+  const root = writeProject({ 'api.mjs': generateApiClientModule(options) })
+  return import(pathToFileURL(path.join(root, 'api.mjs')).href)
+}
+
+const handler = 'export default function handler() { return { status: 200, body: {} } }'
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('generateApiClientModule', () => {
+  it('fills params into the route pattern and sends JSON bodies under the base path', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ id: 1 }), { status: 201 }))
+    vi.stubGlobal('fetch', fetch)
+    const { api } = await loadClient({ basePath: '/docs' })
+
+    expect(await api.post('/posts/:id/tags/:tags+', { params: { id: 'a b', tags: ['x', 'y'] }, body: { n: 1 }, query: { draft: '1' } }))
+      .toEqual({ id: 1 })
+    expect(fetch).toHaveBeenCalledWith('/docs/api/posts/a%20b/tags/x/y?draft=1', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"n":1}',
+    })
+  })
+
+  it('rejects non-2xx responses with an ApiError carrying the status and body', async () => {
+    vi.stubGlobal('fetch', async () => new Response('Not here', { status: 404 }))
+    const { api, ApiError } = await loadClient()
+
+    const error = await api.get('/posts').catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ status: 404, body: 'Not here' })
+  })
+
+  it('requires params that are not optional catch-alls', async () => {
+    vi.stubGlobal('fetch', async () => new Response(''))
+    const { api } = await loadClient()
+
+    await expect(api.get('/posts/:id')).rejects.toThrow('Missing param "id" for /posts/:id')
+    expect(await api.get('/docs/:slug*')).toBeUndefined()
+  })
+})
+
+describe('generateApiClientTypes', () => {
+  it('types each route from its handler module, relative to the output directory', async () => {
+    const root = writeProject({ 'api/posts/[id]/get.ts': handler, 'api/posts/post.ts': handler })
+    const types = generateApiClientTypes(await scanProject(root), path.join(root, '.addis'))
+
+    expect(types).toContain(`'/posts/:id': Route<typeof import("../api/posts/[id]/get").default, { id: string }>`)
+    expect(types).toContain(`'/posts': Route<typeof import("../api/posts/post").default, {}>`)
+    expect(types).toContain('    delete: {}')
+  })
+})
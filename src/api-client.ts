@@ -0,0 +1,166 @@
+// Addis API Client Generator
+// Generates the virtual:addis-api module (typed fetch client for api/ handlers)
+// and .addis/api.d.ts, which infers its types from the handlers themselves
+
+import path from 'path'
+import { API_HANDLERS, API_METHODS } from './routes.js'
+import { normalizeBasePath } from './rules.js'
+import { paramsType } from './route-types.js'
+import { VIRTUAL_API_ID } from './types.js'
+import type { ProjectStructure } from './types.js'
+
+/** Methods exposed on the client (HEAD and OPTIONS carry no JSON body) */
+const CLIENT_METHODS = API_METHODS.filter(method => method !== 'head' && method !== 'options')
+
+/**
+ * Generate the virtual:addis-api module
+ *
+ *   import { api } from 'virtual:addis-api'
+ *   const post = await api.get('/posts/:id', { params: { id } })
+ *   await api.post('/posts', { body: { title } })
+ *
+ * Non-2xx responses reject with an ApiError carrying the status and body.
+ */
+export function generateApiClientModule(options: { basePath?: string } = {}): string {
+  const apiBase = `${normalizeBasePath(options.basePath)}/api`
+
+  return `// Addis API Client (auto-generated)
+// Typed by .addis/api.d.ts - paths are api/ route patterns
+
+const API_BASE = ${JSON.stringify(apiBase)};
+
+export class ApiError extends Error {
+  constructor(status, body) {
+    super('API request failed with status ' + status);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Fill :name params into a route pattern (catch-alls take arrays)
+function buildPath(pattern, params = {}) {
+  const segments = pattern.split('/').filter(Boolean).flatMap(segment => {
+    if (!segment.startsWith(':')) return [segment];
+
+    const catchAll = segment.endsWith('+') || segment.endsWith('*');
+    const name = catchAll ? segment.slice(1, -1) : segment.slice(1);
+    if (params[name] === undefined && !segment.endsWith('*')) {
+      throw new Error('Missing param "' + name + '" for ' + pattern);
+    }
+    return [].concat(params[name] ?? []).map(value => encodeURIComponent(value));
+  });
+
+  return segments.length > 0 ? '/' + segments.join('/') : '';
+}
+
+async function request(method, pattern, options = {}) {
+  const query = options.query ? '?' + new URLSearchParams(options.query) : '';
+  const hasBody = options.body !== undefined;
+
+  const response = await fetch(API_BASE + buildPath(pattern, options.params) + query, {
+    method,
+    headers: { ...(hasBody ? { 'Content-Type': 'application/json' } : {}), ...options.headers },
+    body: hasBody ? JSON.stringify(options.body) : undefined,
+  });
+
+  const text = await response.text();
+  let body = text;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    // Not JSON - keep the raw text
+  }
+
+  if (!response.ok) throw new ApiError(response.status, body);
+  return body;
+}
+
+export const api = {
+${CLIENT_METHODS.map(method => `  ${method}: (path, options) => request('${method.toUpperCase()}', path, options),`).join('\n')}
+};
+`
+}
+
+/**
+ * Generate .addis/api.d.ts for the virtual:addis-api module
+ * Each route's response and request body types come from its handler
+ * (typeof import('../api/...').default), so they follow the handler as it changes.
+ */
+export function generateApiClientTypes(structure: ProjectStructure, outDir: string): string {
+  const methodEntries = CLIENT_METHODS.map(method => {
+    const routes = structure[API_HANDLERS[method]].map(route => {
+      const handler = `typeof import(${JSON.stringify(importPath(outDir, route.filePath))}).default`
+      return `      '${route.routePath}': Route<${handler}, ${paramsType(route.routePath)}>`
+    })
+
+    return routes.length > 0
+      ? `    ${method}: {\n${routes.join('\n')}\n    }`
+      : `    ${method}: {}`
+  }).join('\n')
+
+  return `// API client types for this project (generated by vite-plugin-addis on every scan - do not edit)
+// Add ".addis/*.d.ts" to "include" in tsconfig.json to use them
+
+declare module '${VIRTUAL_API_ID}' {
+  type Handler = (...args: any[]) => unknown
+
+  /** Response body of a handler - json(data) / { status, body } results unwrap to body */
+  type ResponseOf<H extends Handler> = Awaited<ReturnType<H>> extends { body: infer B } ? B : Awaited<ReturnType<H>>
+
+  /** Request body a handler reads, from the body field of its request parameter */
+  type BodyOf<H extends Handler> = Parameters<H>[0] extends { body: infer B } ? B : unknown
+
+  type Route<H extends Handler, P> = { params: P; body: BodyOf<H>; response: ResponseOf<H> }
+
+  /** api/ route patterns with a handler, per HTTP method */
+  export interface ApiRoutes {
+${methodEntries}
+  }
+
+  export type ApiRequestOptions<R extends { params: unknown; body: unknown }> = {
+    params?: R['params']
+    body?: R['body']
+    query?: Record<string, string>
+    headers?: Record<string, string>
+  }
+
+  type MethodClient<M extends keyof ApiRoutes> = <P extends keyof ApiRoutes[M] & string>(
+    path: P,
+    options?: ApiRequestOptions<ApiRoutes[M][P] extends { params: unknown; body: unknown } ? ApiRoutes[M][P] : never>
+  ) => Promise<ApiRoutes[M][P] extends { response: infer R } ? R : never>
+
+  export const api: { [M in keyof ApiRoutes]: MethodClient<M> }
+
+  /** Thrown for non-2xx responses */
+  export class ApiError extends Error {
+    status: number
+    body: unknown
+  }
+}
+`
+}
+
+/**
+ * esbuild plugin serving virtual:addis-api to production client bundles
+ */
+export function createApiClientPlugin(options: { basePath?: string } = {}) {
+  return {
+    name: 'addis-api-client',
+    setup(build: any) {
+      build.onResolve({ filter: /^virtual:addis-api$/ }, () => ({ path: VIRTUAL_API_ID, namespace: 'addis-api' }))
+      build.onLoad({ filter: /.*/, namespace: 'addis-api' }, () => ({
+        contents: generateApiClientModule(options),
+        loader: 'js',
+      }))
+    },
+  }
+}
+
+/**
+ * Extensionless import specifier for a handler, relative to the .d.ts file
+ */
+function importPath(outDir: string, filePath: string): string {
+  const relative = path.relative(outDir, filePath).replace(/\\/g, '/').replace(/\.[^./]+$/, '')
+  return relative.startsWith('.') ? relative : `./${relative}`
+}
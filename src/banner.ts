@@ -3,6 +3,7 @@
 
 import os from 'os'
 import { ascii } from '@tananetwork/stdio'
+import { OPENAPI_PAGE_URL } from './openapi.js'
 
 // ANSI colors for terminal output
 export const colors = {
@@ -34,6 +35,10 @@ interface BannerOptions {
   vitePort: number
   edgePort: number
   host?: boolean | string
+  /** Sub-path the app is mounted under (normalized, '' at the root) */
+  basePath?: string
+  /** Whether the project has api/ handlers - the OpenAPI page is listed only then */
+  hasApiRoutes?: boolean
 }
 
 /**
@@ -41,7 +46,7 @@ interface BannerOptions {
  * Uses @tananetwork/stdio for consistent styling
  */
 export function printAddisBanner(options: BannerOptions) {
-  const { vitePort, edgePort, host } = options
+  const { vitePort, edgePort, host, basePath = '', hasApiRoutes = false } = options
   const { reset, bold, cyan, green, gray, dim } = colors
 
   // Clear screen and move cursor to top
@@ -67,6 +72,9 @@ export function printAddisBanner(options: BannerOptions) {
   }
 
   console.log(`  ${dim}➜${reset}  ${dim}Edge:${reset}    ${dim}http://localhost:${edgePort}/${reset}`)
+  if (hasApiRoutes) {
+    console.log(`  ${dim}➜${reset}  ${dim}API:${reset}     ${dim}http://localhost:${vitePort}${basePath}${OPENAPI_PAGE_URL}${reset}`)
+  }
   console.log()
   console.log(`${gray}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${reset}`)
   console.log()
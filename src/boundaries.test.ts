@@ -0,0 +1,83 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { build } from 'esbuild'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { boundaryErrorMessage, createImportBoundaryPlugin, isForbiddenImport } from './boundaries.js'
+import type { BundleEnvironment } from './boundaries.js'
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'addis-boundaries-'))
+
+const files: Record<string, string> = {
+  'app/page.tsx': `import { KEY } from '../lib/secrets'\nexport default () => KEY`,
+  'app/Widget.tsx': `import { width } from '../lib/browser'\nexport default () => width()`,
+  'app/Chart.tsx': `import 'client-only'\nexport default () => null`,
+  'lib/secrets.ts': `import 'server-only'\nexport const KEY = 'x'`,
+  'lib/browser.ts': `import 'client-only'\nexport const width = () => window.innerWidth`,
+  'lib/posts.ts': `import * as db from 'tana/db'\nexport const posts = () => db`,
+  'app/Posts.tsx': `import { posts } from '../lib/posts'\nexport default () => posts()`,
+}
+for (const [file, content] of Object.entries(files)) {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+  fs.writeFileSync(path.join(root, file), content)
+}
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+/** Bundle a project file for an environment - the error messages, or [] */
+async function bundleErrors(file: string, environment: BundleEnvironment): Promise<string[]> {
+  try {
+    await build({
+      entryPoints: [path.join(root, file)],
+      bundle: true,
+      write: false,
+      format: 'esm',
+      logLevel: 'silent',
+      external: ['tana/*'],
+      plugins: [createImportBoundaryPlugin(environment, root)],
+    })
+    return []
+  } catch (error: any) {
+    return error.errors.map((message: { text: string }) => message.text)
+  }
+}
+
+describe('isForbiddenImport', () => {
+  it('keeps tana/* runtime modules and server-only out of client code', () => {
+    expect(isForbiddenImport('tana/db', 'client')).toBe(true)
+    expect(isForbiddenImport('server-only', 'client')).toBe(true)
+    expect(isForbiddenImport('react', 'client')).toBe(false)
+  })
+
+  it('keeps DOM entry points and client-only out of the contract', () => {
+    expect(isForbiddenImport('react-dom/client', 'server')).toBe(true)
+    expect(isForbiddenImport('client-only', 'server')).toBe(true)
+    expect(isForbiddenImport('tana/db', 'server')).toBe(false)
+  })
+})
+
+describe('createImportBoundaryPlugin', () => {
+  it('lets each side import its own marker', async () => {
+    expect(await bundleErrors('app/page.tsx', 'server')).toEqual([])
+    expect(await bundleErrors('app/Chart.tsx', 'client')).toEqual([])
+  })
+
+  it('fails with the import chain, relative to the project root', async () => {
+    expect(await bundleErrors('app/Posts.tsx', 'client')).toEqual([
+      boundaryErrorMessage('tana/db', 'client', ['app/Posts.tsx', 'lib/posts.ts']),
+    ])
+    expect(await bundleErrors('app/Widget.tsx', 'server')).toEqual([
+      boundaryErrorMessage('client-only', 'server', ['app/Widget.tsx', 'lib/browser.ts']),
+    ])
+  })
+
+  it('names the side the import belongs to', async () => {
+    const [message] = await bundleErrors('app/page.tsx', 'client')
+    expect(message).toBe(`"server-only" is server-only and can't be imported by client code:
+  app/page.tsx
+  → lib/secrets.ts
+  → server-only`)
+  })
+})
@@ -0,0 +1,137 @@
+// Addis Import Boundaries
+// Server code (contract.js) and client code (client components, client.js)
+// must not import each other's modules. Files opt in with marker imports:
+//
+//   import 'server-only'   // never bundled for the browser
+//   import 'client-only'   // never bundled into contract.js
+//
+// and some modules are one-sided by nature (see SERVER_ONLY_MODULES and
+// CLIENT_ONLY_MODULES). Builds fail with the import chain that crossed.
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+/** Where a bundle runs */
+export type BundleEnvironment = 'server' | 'client'
+
+/** Marker import for files that must stay on the server */
+export const SERVER_ONLY_MODULE = 'server-only'
+
+/** Marker import for files that must stay in the browser */
+export const CLIENT_ONLY_MODULE = 'client-only'
+
+/** Modules only the server can import - tana-edge runtime modules (tana/db, tana/kv, ...) */
+const SERVER_ONLY_MODULES = /^(server-only|tana\/.+)$/
+
+/** Modules only the browser can import - DOM entry points */
+const CLIENT_ONLY_MODULES = /^(client-only|react-dom\/client)$/
+
+/**
+ * Modules an environment may not import, and the marker that is allowed
+ * there (it resolves to an empty module)
+ */
+const BOUNDARIES: Record<BundleEnvironment, { forbidden: RegExp; marker: string }> = {
+  server: { forbidden: CLIENT_ONLY_MODULES, marker: SERVER_ONLY_MODULE },
+  client: { forbidden: SERVER_ONLY_MODULES, marker: CLIENT_ONLY_MODULE },
+}
+
+/**
+ * Whether a module specifier may not be imported by code running in an environment
+ */
+export function isForbiddenImport(specifier: string, environment: BundleEnvironment): boolean {
+  return BOUNDARIES[environment].forbidden.test(specifier)
+}
+
+/**
+ * Error message for a forbidden import, given the chain of files that led to
+ * it (entry first)
+ *
+ *   "tana/db" is server-only and can't be imported by client code:
+ *     app/components/Counter.tsx
+ *     → lib/posts.ts
+ *     → tana/db
+ */
+export function boundaryErrorMessage(specifier: string, environment: BundleEnvironment, chain: string[]): string {
+  const side = environment === 'client' ? 'server-only' : 'client-only'
+  const code = environment === 'client' ? 'client code' : 'server code (contract.js)'
+  const lines = [...chain, specifier].map((file, i) => (i === 0 ? `  ${file}` : `  → ${file}`))
+  return `"${specifier}" is ${side} and can't be imported by ${code}:\n${lines.join('\n')}`
+}
+
+/**
+ * Create esbuild plugin enforcing the import boundary of a bundle
+ * Marker imports resolve to empty modules; forbidden imports fail the build
+ * once it has finished, with the chain from an entry file (or route file)
+ * to the import - paths relative to the project root.
+ *
+ * Register it before plugins resolving the same specifiers (tana/*).
+ */
+export function createImportBoundaryPlugin(environment: BundleEnvironment, root: string) {
+  const { forbidden, marker } = BOUNDARIES[environment]
+  const namespace = 'addis-boundary'
+
+  return {
+    name: 'addis-import-boundary',
+    setup(build: any) {
+      // The import chain comes from the metafile
+      build.initialOptions.metafile = true
+
+      build.onResolve({ filter: new RegExp(`^${marker}$`) }, (args: any) => ({ path: args.path, namespace }))
+      build.onResolve({ filter: forbidden }, (args: any) => ({ path: args.path, namespace }))
+      // CommonJS, so named imports of a forbidden module don't warn before the error
+      build.onLoad({ filter: /.*/, namespace }, () => ({ contents: 'module.exports = {}', loader: 'js' }))
+
+      build.onEnd((result: any) => {
+        if (!result.metafile) return
+
+        // Metafile paths are relative to the build's working directory
+        const workingDir = build.initialOptions.absWorkingDir ?? process.cwd()
+        const errors = findBoundaryViolations(result.metafile, namespace, forbidden, workingDir)
+          .map(({ specifier, chain }) => {
+            const files = chain.map(file => path.relative(root, path.resolve(workingDir, file)))
+            return { text: boundaryErrorMessage(specifier, environment, files) }
+          })
+        return errors.length > 0 ? { errors } : undefined
+      })
+    },
+  }
+}
+
+/**
+ * Forbidden imports in a bundle, each with the chain of files importing it
+ * (a virtual entry, like the route modules entry, is left out) - metafile
+ * paths, relative to workingDir
+ */
+function findBoundaryViolations(
+  metafile: { inputs: Record<string, { imports: Array<{ path: string }> }> },
+  namespace: string,
+  forbidden: RegExp,
+  workingDir: string = process.cwd()
+): Array<{ specifier: string; chain: string[] }> {
+  // First importer of each input, for walking back to an entry
+  const importers = new Map<string, string>()
+  for (const [input, { imports }] of Object.entries(metafile.inputs)) {
+    for (const imported of imports) {
+      if (!importers.has(imported.path)) importers.set(imported.path, input)
+    }
+  }
+
+  const violations: Array<{ specifier: string; chain: string[] }> = []
+  for (const [input, { imports }] of Object.entries(metafile.inputs)) {
+    for (const imported of imports) {
+      const specifier = imported.path.startsWith(`${namespace}:`) ? imported.path.slice(namespace.length + 1) : null
+      if (!specifier || !forbidden.test(specifier)) continue
+
+      const chain = [input]
+      let importer = importers.get(input)
+      while (importer && !chain.includes(importer)) {
+        chain.unshift(importer)
+        importer = importers.get(importer)
+      }
+
+      violations.push({ specifier, chain: chain.filter(file => fs.existsSync(path.resolve(workingDir, file))) })
+    }
+  }
+
+  return violations
+}
@@ -3,9 +3,14 @@
  *
  * Produces a unified contract bundle that runs on tana-edge:
  *   - contract.js : Unified RSC contract with 5 exports (init, contract, Page, get, post)
+ *   - contract.js.map : Source map of its route modules (app/, api/ and blockchain/ files)
  *   - client.js   : Client bundle for browser hydration via Flight protocol
  *   - index.html  : HTML shell with proper references
+ *   - openapi.json: OpenAPI document for the api/ handlers
  *   - styles.css  : Extracted CSS (when applicable)
+ *   - sitemap.xml : Sitemap of the static routes (or app/sitemap.ts)
+ *   - robots.txt  : Crawler rules (app/robots.ts or allow all)
+ *   - prerender/  : Prerendered static pages, listed in prerender-manifest.json (with prerender)
  *
  * Usage:
  *   npx tana-build --root ./my-app --out dist --id my-app
@@ -15,9 +20,20 @@
 import { build, BuildOptions } from 'esbuild'
 import * as fs from 'fs'
 import * as path from 'path'
-import { scanProject, generateContract } from './generator.js'
-
-export interface TanaBuildConfig {
+import { generateContract } from './generator.js'
+import { scanProject } from './routes.js'
+import { normalizeBasePath } from './rules.js'
+import { createApiClientPlugin } from './api-client.js'
+import { createI18nClientPlugin } from './i18n.js'
+import { createImportBoundaryPlugin } from './boundaries.js'
+import { generateOpenApiDocument } from './openapi.js'
+import { prerenderContract, prerenderFile, PRERENDER_DIR, PRERENDER_MANIFEST } from './prerender.js'
+import { generateRobots, generateSitemap } from './sitemap.js'
+import type { PrerenderedPage, PrerenderManifest } from './prerender.js'
+import type { ContractOptions, RouteModuleStats, TrailingSlash } from './types.js'
+
+/** Build configuration - ContractOptions (redirects, rewrites, headers, basePath, trailingSlash, i18n) are compiled into contract.js */
+export interface TanaBuildConfig extends ContractOptions {
   /** Project root directory (containing app/, api/, blockchain/ folders) */
   root: string
   /** Entry point for client (hydration code) */
@@ -32,16 +48,34 @@ export interface TanaBuildConfig {
   publicPath?: string
   /** CSS entry file (optional - if not provided, extracts from components) */
   cssEntry?: string
+  /** Extra directory names to skip when scanning app/ and api/ for routes */
+  ignoreDirs?: string[]
+  /**
+   * Render static pages (and dynamic pages exporting generateStaticParams) to
+   * HTML and Flight files that tana-edge serves without calling Page()
+   */
+  prerender?: boolean
+  /** Public origin for sitemap.xml and robots.txt URLs (e.g. https://example.com) */
+  siteUrl?: string
 }
 
 export interface BuildResult {
   contractBundle: string
+  /** contract.js.map (null without route files) */
+  contractSourceMap: string | null
   clientBundle: string
   htmlShell: string
+  openApiDocument: string
+  sitemap: string
+  robots: string
   cssBundle: string | null
+  /** URLs of the prerendered pages */
+  prerendered: string[]
   contractDir: string
   stats: {
     contractSize: number
+    /** Route module sizes, bundled together vs one file at a time */
+    routeModules: RouteModuleStats
     clientSize: number
     cssSize: number
     buildTime: number
@@ -60,6 +94,15 @@ export async function tanaBuild(config: TanaBuildConfig): Promise<BuildResult> {
     contractId,
     minify = true,
     publicPath = '/',
+    ignoreDirs,
+    redirects,
+    rewrites,
+    headers,
+    basePath,
+    trailingSlash,
+    i18n,
+    prerender = false,
+    siteUrl,
   } = config
 
   const contractDir = path.join(outDir, contractId)
@@ -81,7 +124,7 @@ export async function tanaBuild(config: TanaBuildConfig): Promise<BuildResult> {
   console.log(`\n🔨 Building ${contractId}`)
 
   // ========== 1. Scan Project Structure ==========
-  const structure = await scanProject(projectRoot)
+  const structure = await scanProject(projectRoot, { ignoreDirs })
 
   // ========== 2. Generate Unified Contract ==========
   // IMPORTANT: Server bundles are NEVER minified because tana-edge's ESM import
@@ -89,10 +132,27 @@ export async function tanaBuild(config: TanaBuildConfig): Promise<BuildResult> {
   // All code is inlined for maximum performance (zero I/O during execution)
   console.log('\n📦 Generating unified contract.js...')
 
-  const { contractPath, clientBundlePath: clientComponentsPath } = await generateContract(structure, contractDir)
+  const { contractPath, sourceMapPath, clientBundlePath: clientComponentsPath, moduleStats } = await generateContract(structure, contractDir, {
+    redirects,
+    rewrites,
+    headers,
+    basePath,
+    trailingSlash,
+    i18n,
+  })
   const contractSize = fs.statSync(contractPath).size
 
   console.log(`   ✓ Contract: ${(contractSize / 1024).toFixed(1)} KB`)
+  if (moduleStats.modules > 0) {
+    // Route files are bundled together - shared files (lib/db, helpers, schemas) are included once
+    console.log(
+      `   ✓ Route modules: ${moduleStats.modules} file(s), ${(moduleStats.size / 1024).toFixed(1)} KB ` +
+      `(${(moduleStats.separateSize! / 1024).toFixed(1)} KB bundled one file at a time, ${moduleStats.sharedFiles} shared file(s))`
+    )
+    for (const [file, size] of Object.entries(moduleStats.moduleSizes)) {
+      console.log(`     ${path.relative(projectRoot, file)}: ${(size / 1024).toFixed(1)} KB`)
+    }
+  }
 
   if (clientComponentsPath) {
     const clientComponentsSize = fs.statSync(clientComponentsPath).size
@@ -111,6 +171,7 @@ export async function tanaBuild(config: TanaBuildConfig): Promise<BuildResult> {
     outfile: path.join(contractDir, 'client.js'),
     jsx: 'automatic',
     minify,
+    plugins: [createImportBoundaryPlugin('client', projectRoot), createApiClientPlugin({ basePath }), createI18nClientPlugin({ i18n, basePath })],
     sourcemap: !minify,
     define: {
       'process.env.NODE_ENV': '"production"',
@@ -157,24 +218,101 @@ export async function tanaBuild(config: TanaBuildConfig): Promise<BuildResult> {
   const htmlShell = generateHtmlShell({
     contractId,
     publicPath,
+    basePath: normalizeBasePath(basePath),
     hasCSS: cssBundle !== null,
+    defaultLocale: i18n?.defaultLocale,
   })
 
   const htmlPath = path.join(contractDir, 'index.html')
   fs.writeFileSync(htmlPath, htmlShell)
   console.log(`   ✓ HTML: ${(htmlShell.length / 1024).toFixed(1)} KB`)
 
+  // ========== 5. Generate OpenAPI Document ==========
+  console.log('📦 Generating API document (openapi.json)...')
+
+  const openApiDocument = await generateOpenApiDocument(structure, { title: contractId, basePath })
+  const openApiPath = path.join(contractDir, 'openapi.json')
+  fs.writeFileSync(openApiPath, JSON.stringify(openApiDocument, null, 2))
+  console.log(`   ✓ OpenAPI: ${Object.keys(openApiDocument.paths).length} path(s)`)
+
+  // ========== 6. Generate sitemap.xml & robots.txt ==========
+  console.log('📦 Generating sitemap.xml and robots.txt...')
+
+  if (!siteUrl) {
+    console.warn('   ⚠ No siteUrl set - sitemap URLs are relative (set siteUrl / --site-url for absolute URLs)')
+  }
+
+  const siteOptions = { siteUrl, basePath, trailingSlash, i18n }
+  const sitemapPath = path.join(contractDir, 'sitemap.xml')
+  const robotsPath = path.join(contractDir, 'robots.txt')
+  const sitemap = await generateSitemap(structure, siteOptions)
+  fs.writeFileSync(sitemapPath, sitemap)
+  fs.writeFileSync(robotsPath, await generateRobots(structure, siteOptions))
+  console.log(`   ✓ Sitemap: ${(sitemap.match(/<url>/g) || []).length} URL(s)`)
+
+  // ========== 7. Prerender Static Pages ==========
+  // Each page is written as HTML (the shell with its markup, metadata and
+  // embedded Flight data) and as a Flight payload for client navigations
+  const prerendered: string[] = []
+  fs.rmSync(path.join(contractDir, PRERENDER_DIR), { recursive: true, force: true })
+  fs.rmSync(path.join(contractDir, PRERENDER_MANIFEST), { force: true })
+
+  if (prerender) {
+    console.log('📦 Prerendering static pages...')
+
+    const { pages, skipped } = await prerenderContract(contractPath, { basePath: normalizeBasePath(basePath), trailingSlash, i18n })
+    const manifest: PrerenderManifest = { routes: {}, skipped: {} }
+
+    for (const page of pages) {
+      const html = prerenderFile(page.url, 'html')
+      const flight = prerenderFile(page.url, 'rsc')
+
+      fs.mkdirSync(path.dirname(path.join(contractDir, html)), { recursive: true })
+      fs.writeFileSync(path.join(contractDir, html), generateHtmlShell({
+        contractId,
+        publicPath,
+        basePath: normalizeBasePath(basePath),
+        hasCSS: cssBundle !== null,
+        defaultLocale: i18n?.defaultLocale,
+        page,
+      }))
+      fs.writeFileSync(path.join(contractDir, flight), page.flight)
+
+      manifest.routes[page.url] = { html, flight, ...(page.cacheControl ? { cacheControl: page.cacheControl } : {}) }
+      prerendered.push(page.url)
+    }
+
+    for (const page of skipped) {
+      manifest.skipped[page.url] = { status: page.status, reason: page.reason }
+    }
+
+    fs.writeFileSync(path.join(contractDir, PRERENDER_MANIFEST), JSON.stringify(manifest, null, 2))
+    console.log(`   ✓ Prerendered: ${pages.length} page(s)`)
+    for (const page of skipped) {
+      console.log(`   - Skipped ${page.url} (${page.reason}, ${page.status})`)
+    }
+  }
+
   // ========== Build Complete ==========
   const buildTime = Date.now() - startTime
 
   console.log(`\n✅ Build complete in ${buildTime}ms`)
   console.log(`\n📁 Output: ${contractDir}/`)
   console.log(`   contract.js - Unified RSC contract (5 exports: init, contract, Page, get, post)`)
+  if (sourceMapPath) {
+    console.log(`   contract.js.map - Source map`)
+  }
   console.log(`   client.js   - Client bundle (hydration)`)
   console.log(`   index.html  - HTML shell`)
+  console.log(`   openapi.json - API document`)
+  console.log(`   sitemap.xml - Sitemap`)
+  console.log(`   robots.txt  - Crawler rules`)
   if (cssBundle) {
     console.log(`   styles.css  - Styles`)
   }
+  if (prerender) {
+    console.log(`   prerender/  - ${prerendered.length} prerendered page(s) (${PRERENDER_MANIFEST})`)
+  }
 
   console.log(`\n🚀 Deploy to tana-edge:`)
   console.log(`   cp -r ${contractDir} /path/to/contracts/`)
@@ -183,12 +321,18 @@ export async function tanaBuild(config: TanaBuildConfig): Promise<BuildResult> {
 
   return {
     contractBundle: contractPath,
+    contractSourceMap: sourceMapPath,
     clientBundle,
     htmlShell: htmlPath,
+    openApiDocument: openApiPath,
+    sitemap: sitemapPath,
+    robots: robotsPath,
     cssBundle,
+    prerendered,
     contractDir,
     stats: {
       contractSize,
+      routeModules: moduleStats,
       clientSize,
       cssSize,
       buildTime,
@@ -204,34 +348,51 @@ export async function tanaBuild(config: TanaBuildConfig): Promise<BuildResult> {
  * In production: https://{contractId}.tana.network/client.js
  * In local dev:  http://localhost:8516/{contractId}/client.js
  *
- * Paths are relative so they work in both scenarios.
+ * Paths are relative so they work in both scenarios. An app mounted under a
+ * basePath links its assets from there instead, so nested URLs still resolve.
+ *
+ * The title is a placeholder: pages' metadata renders title and meta elements,
+ * which React hoists into <head> on hydration (replacing the default title).
+ *
+ * A prerendered page fills the shell with its head elements, markup and
+ * Flight data, so the client hydrates it without fetching the page.
  */
 function generateHtmlShell(options: {
   contractId: string
   publicPath: string
+  basePath: string
   hasCSS: boolean
+  /** lang of documents that aren't prerendered in a locale */
+  defaultLocale?: string
+  page?: PrerenderedPage
 }): string {
-  const { contractId, hasCSS } = options
+  const { contractId, basePath, hasCSS, page, defaultLocale = 'en' } = options
 
   // Use relative paths so they work with both:
   // - subdomain routing (https://my-app.tana.network/client.js)
   // - path routing (http://localhost:8516/rsc/my-app/client.js)
+  // A prerendered page climbs back from its URL's directory (/posts/1 → ../)
+  const pageDepth = page ? page.url.slice(0, page.url.lastIndexOf('/')).split('/').filter(Boolean).length : 0
+  const assetPrefix = basePath ? `${basePath}/` : '../'.repeat(pageDepth)
+
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${page?.locale ?? defaultLocale}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${contractId}</title>
-  ${hasCSS ? `<link rel="stylesheet" href="styles.css">` : ''}
-  <script type="module" src="client.js" defer></script>
+  ${page?.head.includes('<title') ? '' : `<title data-addis-default>${contractId}</title>`}
+  ${page?.head ?? ''}
+  ${hasCSS ? `<link rel="stylesheet" href="${assetPrefix}styles.css">` : ''}
+  <script type="module" src="${assetPrefix}client.js" defer></script>
 </head>
 <body>
-  <div id="root">
+  <div id="root">${page ? page.content : `
     <!-- Server-rendered content will be streamed here -->
     <div class="loading" style="padding: 20px; text-align: center; color: #666;">
       Loading...
     </div>
-  </div>
+  `}</div>${page ? `
+  <script id="__FLIGHT_DATA__" type="application/json">${page.flight.replace(/</g, '\\u003c')}</script>` : ''}
 </body>
 </html>
 `
@@ -270,6 +431,10 @@ Options:
   --id <name>       Contract ID (folder name in contracts/)
   --no-minify       Skip client bundle minification (server is never minified)
   --public <path>   Public path for assets (default: /)
+  --base-path <path>        Sub-path the app is mounted under (e.g. /docs)
+  --trailing-slash <policy> Canonical page URLs: always | never
+  --prerender       Prerender static pages (and generateStaticParams routes)
+  --site-url <url>  Public origin for sitemap.xml / robots.txt (e.g. https://example.com)
   --help            Show this help
 
 Directory Structure:
@@ -279,9 +444,14 @@ Directory Structure:
 
 Output:
   contract.js       Unified RSC contract with 5 exports (init, contract, Page, get, post)
+  contract.js.map   Source map of the route modules in contract.js
   client.js         Client bundle for browser hydration
   index.html        HTML shell
+  openapi.json      OpenAPI document for api/
+  sitemap.xml       Sitemap (static routes or app/sitemap.ts)
+  robots.txt        Crawler rules (app/robots.ts or allow all)
   styles.css        Extracted styles (if present)
+  prerender/        Prerendered pages + prerender-manifest.json (with --prerender)
 
 Note: Server bundles are never minified for tana-edge ESM import compatibility.
 Client bundles are minified by default for optimal browser delivery.
@@ -298,12 +468,21 @@ Example:
   const contractId = getArg('id') || path.basename(process.cwd())
   const minify = !hasFlag('no-minify')
   const publicPath = getArg('public') || '/'
+  const basePath = getArg('base-path')
+  const trailingSlash = getArg('trailing-slash')
+  const prerender = hasFlag('prerender')
+  const siteUrl = getArg('site-url')
 
   if (!clientEntry) {
     console.error('Error: --client is required')
     process.exit(1)
   }
 
+  if (trailingSlash && trailingSlash !== 'always' && trailingSlash !== 'never') {
+    console.error('Error: --trailing-slash must be "always" or "never"')
+    process.exit(1)
+  }
+
   try {
     await tanaBuild({
       root,
@@ -312,6 +491,10 @@ Example:
       contractId,
       minify,
       publicPath,
+      basePath,
+      trailingSlash: trailingSlash as TrailingSlash | undefined,
+      prerender,
+      siteUrl,
     })
   } catch (error) {
     console.error('Build failed:', error)
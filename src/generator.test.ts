@@ -0,0 +1,390 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { scanProject } from './routes.js'
+import { createContractCache, generateContract } from './generator.js'
+import { loadContract } from './prerender.js'
+import { createSourceMapper, mapStackTrace } from './source-map.js'
+
+const roots: string[] = []
+
+/**
+ * Generate contract.js for a project made of the given files, and load it in
+ * Node as prerendering does (tana/* runtime modules stubbed - handlers return
+ * plain responses)
+ */
+async function buildContract(files: Record<string, string>) {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'addis-generator-'))
+  roots.push(root)
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    fs.writeFileSync(path.join(root, file), content)
+  }
+
+  const outDir = path.join(root, 'out')
+  fs.mkdirSync(outDir)
+  const result = await generateContract(await scanProject(root), outDir)
+  return { root, result, contract: await loadContract(result.contractPath) }
+}
+
+afterAll(() => {
+  for (const root of roots) fs.rmSync(root, { recursive: true, force: true })
+})
+
+/**
+ * HTML of a server element tree, with server components called, fragments
+ * and Suspense boundaries unwrapped (fallbacks left out)
+ */
+async function render(node: any): Promise<string> {
+  node = await node
+  if (node === null || node === undefined || typeof node === 'boolean') return ''
+  if (typeof node === 'string' || typeof node === 'number') return String(node)
+  if (Array.isArray(node)) return (await Promise.all(node.map(render))).join('')
+
+  const { type, props } = node
+  if (typeof type === 'function') return render(type(props))
+  if (typeof type === 'symbol') return render(props.children)
+
+  const attributes = Object.entries(props)
+    .filter(([name, value]) => name !== 'children' && (typeof value === 'string' || typeof value === 'number'))
+    .map(([name, value]) => ` ${name}="${value}"`)
+    .join('')
+  return `<${type}${attributes}>${await render(props.children)}</${type}>`
+}
+
+/** Render a page of a loaded contract */
+async function renderPage(contract: any, url: string, headers: Record<string, string> = {}): Promise<string> {
+  return render(contract.Page({ request: { path: url, method: 'GET', headers } }))
+}
+
+describe('API cache headers', () => {
+  const handlers = {
+    'api/posts/get.ts': `export const tags = ['posts']
+export const revalidate = 60
+export default function get() { return { status: 200, body: { posts: [] } } }`,
+    'api/feed/get.ts': `import { cacheTag } from 'tana/cache'
+export const revalidate = 60
+export default function get(request: any) {
+  const response = { status: 200, body: { feed: [] } }
+  return request.searchParams.tagged ? cacheTag(response, 'feed') : response
+}`,
+  }
+
+  it('sends shared caches an s-maxage for untagged routes', async () => {
+    const { contract } = await buildContract(handlers)
+    const response = await contract.Get({ path: '/api/feed', method: 'GET', headers: {} })
+    expect(response.headers['Cache-Control']).toBe('public, max-age=0, s-maxage=60, stale-while-revalidate')
+  })
+
+  it('sends no-cache for tagged routes and responses - revalidateTag() is per instance', async () => {
+    const { contract } = await buildContract(handlers)
+    const tagged = await contract.Get({ path: '/api/posts', method: 'GET', headers: {} })
+    expect(tagged.headers).toMatchObject({ 'Cache-Control': 'no-cache', 'Cache-Tag': 'posts' })
+
+    const cacheTagged = await contract.Get({ path: '/api/feed?tagged=1', method: 'GET', headers: {} })
+    expect(cacheTagged.headers).toMatchObject({ 'Cache-Control': 'no-cache', 'Cache-Tag': 'feed' })
+  })
+
+  it('answers a matching If-None-Match with 304', async () => {
+    const { contract } = await buildContract(handlers)
+    const { headers } = await contract.Get({ path: '/api/posts', method: 'GET', headers: {} })
+    const response = await contract.Get({ path: '/api/posts', method: 'GET', headers: { 'if-none-match': headers.ETag } })
+    expect(response.status).toBe(304)
+  })
+})
+
+describe('route modules', () => {
+  it('keeps the top-level names of each route file private', async () => {
+    const { contract } = await buildContract({
+      'api/a/get.ts': `const label = 'a'
+export default function get() { return { status: 200, body: label } }`,
+      'api/b/get.ts': `const label = 'b'
+export default function get() { return { status: 200, body: label } }`,
+    })
+
+    expect((await contract.Get({ path: '/api/a', method: 'GET', headers: {} })).body).toBe('a')
+    expect((await contract.Get({ path: '/api/b', method: 'GET', headers: {} })).body).toBe('b')
+  })
+
+  it('supports top-level await', async () => {
+    const { contract } = await buildContract({
+      'api/config/get.ts': `const config = await Promise.resolve({ ready: true })
+export default function get() { return { status: 200, body: config } }`,
+    })
+
+    expect((await contract.Get({ path: '/api/config', method: 'GET', headers: {} })).body).toEqual({ ready: true })
+  })
+})
+
+describe('route module stats', () => {
+  it('counts shared files once and reports the bytes of each route file', async () => {
+    const { root, result } = await buildContract({
+      'lib/format.ts': `export function format(value: string) { return '[' + value + ']' }`,
+      'api/a/get.ts': `import { format } from '../../lib/format'
+export default function get() { return { status: 200, body: format('a') } }`,
+      'api/b/get.ts': `import { format } from '../../lib/format'
+export default function get() { return { status: 200, body: format('b') } }`,
+    })
+    const { moduleStats } = result
+
+    expect(moduleStats.modules).toBe(2)
+    expect(moduleStats.sharedFiles).toBe(1)
+    expect(Object.keys(moduleStats.moduleSizes).sort()).toEqual([
+      path.join(root, 'api/a/get.ts'),
+      path.join(root, 'api/b/get.ts'),
+    ])
+
+    const contract = fs.readFileSync(result.contractPath, 'utf-8')
+    expect(contract.match(/function format\(/g)).toHaveLength(1)
+    for (const size of Object.values(moduleStats.moduleSizes)) {
+      expect(size).toBeGreaterThan(0)
+      expect(size).toBeLessThan(moduleStats.size)
+    }
+  })
+
+  it('measures the route files bundled one at a time, repeating shared files', async () => {
+    const shared = `export const LABELS = ${JSON.stringify(Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`key${i}`, `label ${i}`])))}`
+    const files = {
+      'lib/labels.ts': shared,
+      'api/a/get.ts': `import { LABELS } from '../../lib/labels'
+export default function get() { return { status: 200, body: LABELS } }`,
+      'api/b/get.ts': `import { LABELS } from '../../lib/labels'
+export default function get() { return { status: 200, body: LABELS } }`,
+    }
+    const { moduleStats } = (await buildContract(files)).result
+
+    expect(moduleStats.separateSize! - moduleStats.size).toBeGreaterThan(shared.length)
+  })
+
+  it('leaves the one-file-at-a-time size out of cached (dev) rebuilds', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'addis-generator-'))
+    roots.push(root)
+    fs.mkdirSync(path.join(root, 'api'))
+    fs.writeFileSync(path.join(root, 'api/get.ts'), `export default function get() { return { status: 200, body: {} } }`)
+    const outDir = path.join(root, 'out')
+    fs.mkdirSync(outDir)
+
+    const cache = createContractCache()
+    try {
+      const { moduleStats } = await generateContract(await scanProject(root), outDir, {}, cache)
+      expect(moduleStats.separateSize).toBeUndefined()
+    } finally {
+      await cache.dispose()
+    }
+  })
+})
+
+describe('contract.js source map', () => {
+  it('maps route module code and stack traces back to the route files', async () => {
+    const { root, result } = await buildContract({
+      'api/fail/get.ts': `export default function get() {
+  throw new Error('boom')
+}`,
+    })
+
+    const lines = fs.readFileSync(result.contractPath, 'utf-8').split('\n')
+    expect(lines.at(-2)).toBe('//# sourceMappingURL=contract.js.map')
+
+    const line = lines.findIndex(text => text.includes('throw new Error("boom")')) + 1
+    const column = lines[line - 1].indexOf('throw')
+    const map = JSON.parse(fs.readFileSync(result.sourceMapPath!, 'utf-8'))
+    const lookup = createSourceMapper(map, path.dirname(result.sourceMapPath!))
+    expect(lookup(line, column)).toEqual({ source: path.join(root, 'api/fail/get.ts'), line: 2, column: 2 })
+
+    const stack = `Error: boom\n    at get (file://${result.contractPath}:${line}:${column + 1})`
+    expect(mapStackTrace(stack, lookup, root)).toBe('Error: boom\n    at get (api/fail/get.ts:2:3)')
+  })
+})
+
+describe('incremental rebuilds', () => {
+  it('rebuilds from the cache when an imported file changes', async () => {
+    const { root } = await buildContract({
+      'lib/greeting.ts': `export const greeting = 'hello'`,
+      'api/greet/get.ts': `import { greeting } from '../../lib/greeting'
+export default function get() { return { status: 200, body: greeting } }`,
+    })
+    const structure = await scanProject(root)
+    const outDir = path.join(root, 'out')
+    const cache = createContractCache()
+
+    try {
+      const first = await generateContract(structure, outDir, {}, cache)
+      expect(first.files).toContain(path.join(root, 'lib/greeting.ts'))
+      expect(cache.contexts.has('route-modules')).toBe(true)
+
+      fs.writeFileSync(path.join(root, 'lib/greeting.ts'), `export const greeting = 'bonjour'`)
+      const second = await generateContract(structure, outDir, {}, cache)
+      const contract = await loadContract(second.contractPath)
+      expect((await contract.Get({ path: '/api/greet', method: 'GET', headers: {} })).body).toBe('bonjour')
+    } finally {
+      await cache.dispose()
+    }
+    expect(cache.contexts.size).toBe(0)
+  })
+})
+
+describe('page router', () => {
+  it('renders pages inside their layouts, root to leaf', async () => {
+    const { contract } = await buildContract({
+      'app/layout.tsx': 'export default function Root({ children }: any) { return <main>{children}</main> }',
+      'app/blog/layout.tsx': 'export default function Blog({ children }: any) { return <section>{children}</section> }',
+      'app/blog/page.tsx': 'export default function Posts() { return <h1>posts</h1> }',
+      'app/page.tsx': 'export default function Home() { return <h1>home</h1> }',
+    })
+
+    expect(await renderPage(contract, '/blog')).toBe('<main><section><h1>posts</h1></section></main>')
+    expect(await renderPage(contract, '/')).toBe('<main><h1>home</h1></main>')
+  })
+
+  it('passes catch-all params as arrays, optional ones matching their parent', async () => {
+    const { contract } = await buildContract({
+      'app/docs/[...slug]/page.tsx': `export default function Doc({ params }: any) { return <p>{params.slug.join('|')}</p> }`,
+      'app/shop/[[...path]]/page.tsx': `export default function Shop({ params }: any) { return <p>{params.path.length}</p> }`,
+    })
+
+    expect(await renderPage(contract, '/docs/a/b')).toBe('<p>a|b</p>')
+    expect(await renderPage(contract, '/shop')).toBe('<p>0</p>')
+    expect(await renderPage(contract, '/shop/x/y')).toBe('<p>2</p>')
+  })
+
+  it('applies route group layouts without a URL segment', async () => {
+    const { contract } = await buildContract({
+      'app/(shop)/layout.tsx': 'export default function Shop({ children }: any) { return <div>{children}</div> }',
+      'app/(shop)/cart/page.tsx': 'export default function Cart() { return <p>cart</p> }',
+      'app/about/page.tsx': 'export default function About() { return <p>about</p> }',
+    })
+
+    expect(await renderPage(contract, '/cart')).toBe('<div><p>cart</p></div>')
+    expect(await renderPage(contract, '/about')).toBe('<p>about</p>')
+  })
+
+  it('renders the nearest not-found.tsx / error.tsx inside the layout of its segment', async () => {
+    const { contract } = await buildContract({
+      'app/layout.tsx': 'export default function Root({ children }: any) { return <main>{children}</main> }',
+      'app/not-found.tsx': 'export default function Missing() { return <p>no such page</p> }',
+      'app/posts/layout.tsx': 'export default function Posts({ children }: any) { return <section>{children}</section> }',
+      'app/posts/not-found.tsx': 'export default function NoPost() { return <p>no such post</p> }',
+      'app/posts/error.tsx': 'export default function Failed({ error }: any) { return <p>failed: {error.message}</p> }',
+      'app/posts/[id]/page.tsx': `import { notFound } from 'tana/navigation'
+export default function Post({ params }: any) {
+  if (params.id === 'missing') notFound()
+  if (params.id === 'broken') throw new Error('boom')
+  return <p>post {params.id}</p>
+}`,
+    })
+
+    expect(await renderPage(contract, '/posts/1')).toBe('<main><section><p>post 1</p></section></main>')
+    expect(await renderPage(contract, '/posts/missing')).toBe('<main><section><p>no such post</p></section></main>')
+    expect(await renderPage(contract, '/posts/broken')).toBe('<main><section><p>failed: boom</p></section></main>')
+    expect(await renderPage(contract, '/nowhere')).toBe('<main><p>no such page</p></main>')
+  })
+
+  it('streams everything below loading.tsx behind its Suspense fallback', async () => {
+    const { contract } = await buildContract({
+      'app/layout.tsx': 'export default function Root({ children }: any) { return <main>{children}</main> }',
+      'app/feed/loading.tsx': 'export default function Loading() { return <p>loading</p> }',
+      'app/feed/error.tsx': 'export default function Failed() { return <p>failed</p> }',
+      'app/feed/page.tsx': `export default async function Feed({ searchParams }: any) {
+  if (searchParams.fail) throw new Error('boom')
+  return <p>{await Promise.resolve('feed')}</p>
+}`,
+    })
+
+    const tree = await contract.Page({ request: { path: '/feed', method: 'GET', headers: {} } })
+    const boundary = tree.props.children
+    expect(boundary.type).toBe(Symbol.for('addis.suspense'))
+    expect(await render(boundary.props.fallback)).toBe('<p>loading</p>')
+    expect(await render(tree)).toBe('<main><p>feed</p></main>')
+
+    expect(await renderPage(contract, '/feed?fail=1')).toBe('<main><p>failed</p></main>')
+  })
+})
+
+describe('API router', () => {
+  const handlers = {
+    'api/items/[id]/get.ts': `export default function get(request: any) { return { status: 200, body: { id: request.params.id } } }`,
+    'api/items/[id]/put.ts': `export default function put(request: any) { return { status: 200, body: { updated: request.params.id } } }`,
+    'api/items/[id]/delete.ts': `export default function del() { return { status: 204, body: '' } }`,
+  }
+
+  it('dispatches each method to its handler file', async () => {
+    const { contract } = await buildContract(handlers)
+    const call = (method: string) => contract.Get({ path: '/api/items/7', method, headers: {} })
+
+    expect((await call('GET')).body).toEqual({ id: '7' })
+    expect((await call('PUT')).body).toEqual({ updated: '7' })
+    expect((await call('DELETE')).status).toBe(204)
+  })
+
+  it('answers HEAD from GET, OPTIONS with Allow, and other methods with 405', async () => {
+    const { contract } = await buildContract(handlers)
+    const call = (method: string) => contract.Get({ path: '/api/items/7', method, headers: {} })
+
+    expect(await call('HEAD')).toMatchObject({ status: 200, body: '' })
+    expect(await call('OPTIONS')).toMatchObject({ status: 204, headers: { Allow: 'GET, PUT, DELETE, HEAD, OPTIONS' } })
+    expect(await call('PATCH')).toMatchObject({ status: 405 })
+  })
+})
+
+describe('search params', () => {
+  it('parses the query string for pages and API handlers, repeated keys as arrays', async () => {
+    const { contract } = await buildContract({
+      'app/search/page.tsx': `export default function Search({ searchParams }: any) { return <p>{JSON.stringify(searchParams)}</p> }`,
+      'api/search/get.ts': `export default function get(request: any) { return { status: 200, body: { path: request.path, searchParams: request.searchParams } } }`,
+    })
+
+    expect(await renderPage(contract, '/search?q=a%20b&tag=x&tag=y')).toBe(
+      `<p>${JSON.stringify({ q: 'a b', tag: ['x', 'y'] })}</p>`
+    )
+    const response = await contract.Get({ path: '/api/search?q=1', method: 'GET', headers: {} })
+    expect(response.body).toEqual({ path: '/search', searchParams: { q: '1' } })
+  })
+})
+
+describe('metadata', () => {
+  it('merges layout and page metadata into head tags, applying the title template', async () => {
+    const { contract } = await buildContract({
+      'app/layout.tsx': `export const metadata = { title: { template: '%s | Blog', default: 'Blog' }, description: 'All posts' }
+export default function Layout({ children }: any) { return <main>{children}</main> }`,
+      'app/posts/[slug]/page.tsx': `export async function generateMetadata({ params }: any) { return { title: params.slug } }
+export default function Post() { return <article>post</article> }`,
+    })
+
+    const html = await renderPage(contract, '/posts/hello')
+    expect(html).toContain('<title data-addis-head="">hello | Blog</title>')
+    expect(html).toContain('<meta name="description" content="All posts" data-addis-head=""></meta>')
+    expect(html).toContain('<article>post</article>')
+  })
+})
+
+describe('middleware', () => {
+  it('runs outer → inner, passing headers on and short-circuiting with a response', async () => {
+    const { contract } = await buildContract({
+      'api/middleware.ts': `import { next } from 'tana/middleware'
+export default function middleware() { return next({ headers: { 'x-outer': '1' }, responseHeaders: { 'X-Served-By': 'addis' } }) }`,
+      'api/admin/middleware.ts': `export default function middleware(request: any) {
+  if (request.headers.authorization !== 'secret') return { status: 401, body: { error: 'Unauthorized' } }
+}`,
+      'api/admin/get.ts': `export default function get(request: any) { return { status: 200, body: { outer: request.headers['x-outer'] } } }`,
+    })
+    const call = (headers: Record<string, string>) => contract.Get({ path: '/api/admin', method: 'GET', headers })
+
+    expect(await call({})).toMatchObject({ status: 401, body: { error: 'Unauthorized' } })
+    expect(await call({ authorization: 'secret' })).toMatchObject({
+      status: 200,
+      headers: { 'X-Served-By': 'addis' },
+      body: { outer: '1' },
+    })
+  })
+
+  it('rewrites page requests without re-running middleware', async () => {
+    const { contract } = await buildContract({
+      'app/middleware.ts': `import { rewrite } from 'tana/middleware'
+export default function middleware(request: any) { if (request.path === '/old') return rewrite('/new') }`,
+      'app/new/page.tsx': `export default function New() { return <p>new</p> }`,
+    })
+
+    expect(await renderPage(contract, '/old')).toBe('<p>new</p>')
+  })
+})
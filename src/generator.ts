@@ -4,231 +4,131 @@
  * Generates a single contract.js file with 5 exports:
  * - init()     - On-chain initialization
  * - contract() - On-chain transaction handler
- * - Page()     - React Server Component page router
+ * - Page()     - React Server Component page router (pages wrapped in layouts)
  * - get()      - API GET request router
  * - post()     - API POST request router
  *
+ * plus put(), patch(), delete(), head() and options() routers, and Get(),
+ * which dispatches /api requests by HTTP method (405 + Allow when a path
+ * has no handler for the method). Page() and Get() run the middleware.ts
+ * chain of the matched route first, and Page() renders the merged metadata
+ * of the route's layouts and page as head elements. revalidate / dynamic /
+ * tags route exports become Cache-Control and ETag handling for API responses
+ * and a per-URL cache of rendered pages (see lib/cache). With the i18n
+ * option, Page() strips the locale prefix and passes the locale to pages.
+ *
  * Uses React Server Components (RSC) with Flight protocol streaming.
  * tana-edge handles the Flight serialization - we just return JSX trees.
- * All code is inlined for maximum performance (zero I/O during execution)
+ * All code is inlined for maximum performance (zero I/O during execution).
+ * Route files are bundled together in one esbuild pass, so files they share
+ * (lib/db, helpers, schemas) are inlined once, and mapped back to their
+ * files by contract.js.map.
  */
 
 import * as fs from 'fs'
 import * as path from 'path'
 import { fileURLToPath } from 'url'
-import { build } from 'esbuild'
+import { build, context } from 'esbuild'
+import type { BuildContext, BuildOptions, BuildResult as EsbuildResult, Metafile } from 'esbuild'
+import { findRouteConflict, SEGMENT_FILES, API_HANDLERS, API_METHODS } from './routes.js'
+import { redirectStatus, normalizeBasePath } from './rules.js'
+import { createApiClientPlugin } from './api-client.js'
+import { assertI18nConfig, createI18nClientPlugin, DEFAULT_LOCALE_COOKIE } from './i18n.js'
+import { offsetSourceMap } from './source-map.js'
+import { createImportBoundaryPlugin } from './boundaries.js'
+import type { SourceMap } from './source-map.js'
+import type { ApiMethod, RouteFile, RouteSegment, ClientComponent, ProjectStructure, ContractOptions, RouteModuleStats } from './types.js'
 
 // ESM __dirname polyfill - derive from import.meta.url
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
-export interface RouteFile {
-  /** File path */
-  filePath: string
-  /** Route path (e.g., '/', '/posts', '/posts/:id') */
-  routePath: string
-  /** Type of file */
-  type: 'page' | 'get' | 'post' | 'init' | 'contract'
-  /** Dynamic params (e.g., ['id'] for /posts/:id) */
-  params?: string[]
-}
-
-export interface ClientComponent {
-  /** File path */
-  filePath: string
-  /** Unique module ID for Flight protocol reference */
-  moduleId: string
-  /** Component name (from file or export) */
-  name: string
-}
-
-export interface ProjectStructure {
-  /** RSC pages from app/ */
-  pages: RouteFile[]
-  /** API GET handlers from api/ */
-  apiGet: RouteFile[]
-  /** API POST handlers from api/ */
-  apiPost: RouteFile[]
-  /** Blockchain init from blockchain/init.ts */
-  init?: RouteFile
-  /** Blockchain contract handler from blockchain/contract.ts */
-  contract?: RouteFile
-  /** Client components (files with 'use client' directive) */
-  clientComponents: ClientComponent[]
-}
-
-/**
- * Check if a file has 'use client' directive at the top
- */
-function hasUseClientDirective(filePath: string): boolean {
-  try {
-    const content = fs.readFileSync(filePath, 'utf-8')
-    // Check first few lines for 'use client' directive
-    const lines = content.split('\n').slice(0, 5)
-    return lines.some(line => {
-      const trimmed = line.trim()
-      return trimmed === "'use client'" ||
-             trimmed === '"use client"' ||
-             trimmed === "'use client';" ||
-             trimmed === '"use client";'
-    })
-  } catch {
-    return false
-  }
+/** Bundle result with code and component name */
+interface BundleResult {
+  code: string
+  /** Alias bound to the default export */
+  componentName: string
+  /** Expression for the module's exports (its ROUTE_MODULES entry) */
+  module: string
 }
 
-/**
- * Generate a stable module ID from file path
- */
-function generateModuleId(filePath: string, root: string): string {
-  const relative = path.relative(root, filePath)
-  // Remove extension and convert to module-like ID
-  return relative.replace(/\.[^.]+$/, '').replace(/[\/\\]/g, '_')
+/** Route exports that set a route's cache policy (see lib/cache) */
+const CACHE_EXPORTS = ['revalidate', 'dynamic', 'tags']
+
+/** Runtime modules compiled into the contract from lib/ (see compileRuntimeModule) */
+const LIB_RUNTIME_MODULES: Record<string, string> = {
+  // notFound() / redirect() helpers, shared by every route and the routers
+  'tana/navigation': '../lib/navigation/index.ts',
+  // next() / rewrite() helpers for middleware.ts
+  'tana/middleware': '../lib/middleware/index.ts',
+  // cacheTag() / revalidateTag() helpers and the tag versions they share
+  'tana/cache': '../lib/cache/index.ts',
 }
 
+/** Runtime modules provided by tana-edge - imported at contract top level when a route uses them */
+const EDGE_MODULES = ['tana/http', 'tana/net', 'tana/kv', 'tana/block', 'tana/context', 'tana/tx', 'tana/core']
+
 /**
- * Scan directory for client components ('use client' files)
+ * React entry points route files may import - served by tana-edge's jsx,
+ * Fragment and Suspense globals (no react-dom/server, tana-edge handles
+ * Flight serialization)
  */
-function scanForClientComponents(dir: string, root: string, components: ClientComponent[]) {
-  if (!fs.existsSync(dir)) return
+const REACT_MODULES = ['react', 'react/jsx-runtime', 'react-dom']
 
-  const entries = fs.readdirSync(dir, { withFileTypes: true })
+/** Export list closing esbuild's ESM output: `export { page_exports as Page_0, ... };` */
+const ESM_EXPORTS = /\nexport\s*\{([^}]*)\};?\s*$/
 
-  for (const entry of entries) {
-    const fullPath = path.join(dir, entry.name)
-
-    if (entry.isDirectory()) {
-      // Skip node_modules and build directories
-      if (['node_modules', 'dist', '.git'].includes(entry.name)) continue
-      scanForClientComponents(fullPath, root, components)
-    } else {
-      // Check .tsx, .ts, .jsx, .js files
-      if (/\.(tsx?|jsx?)$/.test(entry.name) && hasUseClientDirective(fullPath)) {
-        const moduleId = generateModuleId(fullPath, root)
-        const name = path.basename(entry.name, path.extname(entry.name))
-        components.push({ filePath: fullPath, moduleId, name })
-      }
-    }
-  }
+/**
+ * Build state kept between generateContract() calls for one contract, so a
+ * rebuild only re-parses the files that changed (see createContractCache)
+ */
+export interface ContractCache {
+  /** Compiled lib/ runtime modules, by file */
+  runtimeModules: Map<string, Promise<{ code: string; exports: string[] }>>
+  /** esbuild contexts, with the key of the entries they were created for */
+  contexts: Map<string, { key: string; context: BuildContext }>
+  /** Release the esbuild contexts */
+  dispose(): Promise<void>
 }
 
 /**
- * Scan project for routes and handlers
+ * Create a cache for rebuilding a contract incrementally (dev server)
+ * The esbuild route modules and client components builds become contexts
+ * that are rebuilt in place, until their entries change.
  */
-export async function scanProject(root: string): Promise<ProjectStructure> {
-  const structure: ProjectStructure = {
-    pages: [],
-    apiGet: [],
-    apiPost: [],
-    clientComponents: [],
-  }
-
-  // Scan app/ for pages
-  const appDir = path.join(root, 'app')
-  if (fs.existsSync(appDir)) {
-    scanDir(appDir, '', structure.pages, 'page')
-  }
-
-  // Scan api/ for GET/POST handlers
-  const apiDir = path.join(root, 'api')
-  if (fs.existsSync(apiDir)) {
-    scanDir(apiDir, '', structure.apiGet, 'get')
-    scanDir(apiDir, '', structure.apiPost, 'post')
-  }
-
-  // Check for blockchain handlers
-  const blockchainDir = path.join(root, 'blockchain')
-  const initPath = path.join(blockchainDir, 'init.ts')
-  const contractPath = path.join(blockchainDir, 'contract.ts')
-
-  if (fs.existsSync(initPath)) {
-    structure.init = {
-      filePath: initPath,
-      routePath: '',
-      type: 'init',
-    }
-  }
-
-  if (fs.existsSync(contractPath)) {
-    structure.contract = {
-      filePath: contractPath,
-      routePath: '',
-      type: 'contract',
-    }
-  }
-
-  // Scan for client components ('use client' files) in app/, components/, and public/
-  // These will be bundled separately and registered for hydration
-  scanForClientComponents(appDir, root, structure.clientComponents)
+export function createContractCache(): ContractCache {
+  const contexts = new Map<string, { key: string; context: BuildContext }>()
 
-  const componentsDir = path.join(root, 'components')
-  if (fs.existsSync(componentsDir)) {
-    scanForClientComponents(componentsDir, root, structure.clientComponents)
-  }
-
-  const publicDir = path.join(root, 'public')
-  if (fs.existsSync(publicDir)) {
-    scanForClientComponents(publicDir, root, structure.clientComponents)
+  return {
+    runtimeModules: new Map(),
+    contexts,
+    async dispose() {
+      await Promise.all([...contexts.values()].map(({ context }) => context.dispose()))
+      contexts.clear()
+    },
   }
-
-  return structure
 }
 
 /**
- * Recursively scan directory for route files
+ * Run an esbuild build, through a cached context when there is a cache
+ * The context is recreated when key (what the build options depend on) changes
  */
-function scanDir(
-  dir: string,
-  prefix: string,
-  routes: RouteFile[],
-  fileType: 'page' | 'get' | 'post'
-) {
-  if (!fs.existsSync(dir)) return
-
-  const entries = fs.readdirSync(dir, { withFileTypes: true })
-
-  for (const entry of entries) {
-    const fullPath = path.join(dir, entry.name)
-
-    if (entry.isDirectory()) {
-      // Skip utility directories
-      if (['components', 'lib', 'utils', 'styles'].includes(entry.name)) {
-        continue
-      }
-
-      // Handle dynamic routes: [id]/
-      if (entry.name.startsWith('[') && entry.name.endsWith(']')) {
-        const param = entry.name.slice(1, -1)
-        scanDir(fullPath, `${prefix}/:${param}`, routes, fileType)
-      } else {
-        scanDir(fullPath, `${prefix}/${entry.name}`, routes, fileType)
-      }
-    } else {
-      // Check for route files
-      const fileName = entry.name
-      const expectedNames = fileType === 'page'
-        ? ['page.tsx', 'page.ts', 'page.jsx', 'page.js']
-        : [`${fileType}.tsx`, `${fileType}.ts`, `${fileType}.jsx`, `${fileType}.js`]
-
-      if (expectedNames.includes(fileName)) {
-        const routePath = prefix || '/'
-        const params = routePath.split('/').filter(s => s.startsWith(':')).map(s => s.slice(1))
-
-        routes.push({
-          filePath: fullPath,
-          routePath,
-          type: fileType,
-          params: params.length > 0 ? params : undefined,
-        })
-      }
-    }
+async function cachedBuild(
+  cache: ContractCache | undefined,
+  name: string,
+  key: string,
+  options: BuildOptions
+): Promise<EsbuildResult> {
+  if (!cache) return build(options)
+
+  let cached = cache.contexts.get(name)
+  if (cached?.key !== key) {
+    await cached?.context.dispose()
+    cached = { key, context: await context(options) }
+    cache.contexts.set(name, cached)
   }
-}
 
-/** Bundle result with code and component name */
-interface BundleResult {
-  code: string
-  componentName: string
+  return cached.context.rebuild()
 }
 
 /**
@@ -311,38 +211,83 @@ export default ClientRef;
 
 /**
  * Generate unified contract.js with all code inlined
+ * Options that affect routing (redirects, rewrites, headers, basePath,
+ * trailingSlash, i18n) are compiled in
  */
 export async function generateContract(
   structure: ProjectStructure,
-  outDir: string
-): Promise<{ contractPath: string; clientBundlePath: string | null }> {
+  outDir: string,
+  options: ContractOptions = {},
+  cache?: ContractCache
+): Promise<{
+  contractPath: string
+  sourceMapPath: string | null
+  clientBundlePath: string | null
+  moduleStats: RouteModuleStats
+  /** Every source file bundled (route files and what they import) - a change to one needs a rebuild */
+  files: string[]
+}> {
   // Output as contract.js - unified contract file for both CLI deploy and tana-edge runtime
   // The unified contract exports: Page(), get(), post(), init(), contract()
   const contractPath = path.join(outDir, 'contract.js')
 
   const { clientComponents } = structure
 
-  // Build inline bundles for each file (with index for unique naming)
-  // Pass client components so the plugin can replace imports with references
-  const pageBundles = await Promise.all(
-    structure.pages.map((page, i) => bundleFile(page.filePath, 'page', i, clientComponents))
-  )
+  // Fail the build on ambiguous routes instead of letting one silently shadow the other
+  assertNoRouteConflicts(structure.pages, 'page')
+  for (const method of API_METHODS) {
+    assertNoRouteConflicts(structure[API_HANDLERS[method]], method.toUpperCase())
+  }
+  if (options.i18n) assertI18nConfig(options.i18n)
+
+  // Every route file gets an alias in ROUTE_MODULES (with index for unique naming)
+  const routeEntries: Array<{ filePath: string; alias: string }> = []
+  const registerModules = (files: RouteFile[], type: string) => files.map((file, i) => {
+    const bundle = routeModule(type, i)
+    routeEntries.push({ filePath: file.filePath, alias: bundle.componentName })
+    return bundle
+  })
 
-  const getBundles = await Promise.all(
-    structure.apiGet.map((handler, i) => bundleFile(handler.filePath, 'get', i, clientComponents))
-  )
+  const pageBundles = registerModules(structure.pages, 'page')
+  const layoutBundles = registerModules(structure.layouts, 'layout')
+  const errorBundles = registerModules(structure.errorPages, 'error')
+  const notFoundBundles = registerModules(structure.notFoundPages, 'not-found')
+  const loadingBundles = registerModules(structure.loadingPages, 'loading')
+  const middlewareBundles = registerModules(structure.middleware, 'middleware')
+
+  // One bundle list per HTTP method (get.ts, post.ts, put.ts, ...)
+  const apiBundles = {} as Record<ApiMethod, BundleResult[]>
+  for (const method of API_METHODS) {
+    apiBundles[method] = registerModules(structure[API_HANDLERS[method]], method)
+  }
 
-  const postBundles = await Promise.all(
-    structure.apiPost.map((handler, i) => bundleFile(handler.filePath, 'post', i, clientComponents))
-  )
+  const [initBundle = null] = registerModules(structure.init ? [structure.init] : [], 'init')
+  const [contractBundle = null] = registerModules(structure.contract ? [structure.contract] : [], 'contract')
 
-  const initBundle = structure.init
-    ? await bundleFile(structure.init.filePath, 'init', 0, clientComponents)
-    : null
+  // Bundle them all in one pass, so files shared between routes are included once
+  // Pass client components so the plugin can replace imports with references
+  const routeBundle = await bundleRouteModules(routeEntries, structure.root, contractPath, clientComponents, cache)
+
+  // tana/navigation, tana/middleware and tana/cache, compiled in from lib/
+  const libRuntimes = new Map<string, { code: string; exports: string[] }>()
+  for (const [specifier, file] of Object.entries(LIB_RUNTIME_MODULES)) {
+    const filePath = path.resolve(__dirname, file)
+    let runtime = cache?.runtimeModules.get(filePath)
+    if (!runtime) {
+      runtime = compileRuntimeModule(filePath)
+      cache?.runtimeModules.set(filePath, runtime)
+    }
+    libRuntimes.set(specifier, await runtime)
+  }
+
+  // tana-edge modules any route module imports
+  const edgeImports = EDGE_MODULES.filter(specifier => routeBundle.runtimeImports.includes(specifier))
 
-  const contractBundle = structure.contract
-    ? await bundleFile(structure.contract.filePath, 'contract', 0, clientComponents)
-    : null
+  // Map middleware file paths to their bundled function names
+  const middlewareNames = new Map<string, string>()
+  structure.middleware.forEach((middleware, i) => {
+    middlewareNames.set(middleware.filePath, middlewareBundles[i].componentName)
+  })
 
   // Generate client component manifest for the contract
   const clientManifest = clientComponents.length > 0
@@ -359,6 +304,47 @@ export async function generateContract(
     '',
     '// Tana runtime modules (provided by tana-edge)',
     'import { json, status } from "tana/http";',
+    ...edgeImports.map(specifier => `import * as ${edgeModuleName(specifier)} from "${specifier}";`),
+    '',
+    '// ========== Navigation Runtime (tana/navigation) ==========',
+    '',
+    libRuntimes.get('tana/navigation')!.code,
+    '',
+    '// ========== Middleware Runtime (tana/middleware) ==========',
+    '',
+    libRuntimes.get('tana/middleware')!.code,
+    '',
+    '// ========== Cache Runtime (tana/cache) ==========',
+    '',
+    libRuntimes.get('tana/cache')!.code,
+    '',
+    '// ========== Runtime Module Table ==========',
+    '',
+    generateModuleTables(new Map([...libRuntimes].map(([specifier, runtime]) => [specifier, runtime.exports])), edgeImports),
+    '',
+    '// ========== Route Modules ==========',
+    '',
+    routeBundle.code,
+    '',
+    '// ========== Route Helpers ==========',
+    '',
+    generateRouteHelpers(),
+    '',
+    '// ========== Metadata ==========',
+    '',
+    generateMetadataHelpers(),
+    '',
+    '// ========== Caching ==========',
+    '',
+    generateCacheHelpers(),
+    '',
+    '// ========== Redirects, Rewrites & Headers ==========',
+    '',
+    generateRoutingRules(options),
+    '',
+    '// ========== Locales ==========',
+    '',
+    generateLocaleRouting(options),
     '',
     '// ========== Client Component Manifest ==========',
     '',
@@ -370,37 +356,95 @@ export async function generateContract(
     '',
     contractBundle?.code || '// No contract() function defined',
     '',
+    '// ========== Middleware ==========',
+    '',
+    ...(middlewareBundles.length > 0 ? middlewareBundles.map(b => b.code) : ['// No middleware defined']),
+    '',
+    '// ========== Layout Components (Server Components) ==========',
+    '',
+    ...layoutBundles.map(b => b.code),
+    '',
+    '// ========== Error, Not-Found & Loading Boundaries (Server Components) ==========',
+    '',
+    ...errorBundles.map(b => b.code),
+    '',
+    ...notFoundBundles.map(b => b.code),
+    '',
+    ...loadingBundles.map(b => b.code),
+    '',
     '// ========== Page Components (Server Components) ==========',
     '',
     ...pageBundles.map(b => b.code),
     '',
     '// ========== API Handlers ==========',
     '',
-    ...getBundles.map(b => b.code),
-    '',
-    ...postBundles.map(b => b.code),
+    ...API_METHODS.flatMap(method => apiBundles[method].map(b => b.code)),
     '',
     '// ========== RSC Page Router ==========',
     '',
-    generateRSCRouter(structure.pages, pageBundles),
+    generateRSCRouter(structure, pageBundles, middlewareNames, [
+      [structure.layouts, layoutBundles],
+      [structure.errorPages, errorBundles],
+      [structure.notFoundPages, notFoundBundles],
+      [structure.loadingPages, loadingBundles],
+    ]),
     '',
     '// ========== API Routers ==========',
     '',
-    generateAPIRouter(structure.apiGet, getBundles, 'get'),
-    '',
-    generateAPIRouter(structure.apiPost, postBundles, 'post'),
+    ...API_METHODS.flatMap(method => [
+      generateAPIRouter(structure[API_HANDLERS[method]], apiBundles[method], method),
+      '',
+    ]),
+    generateAPIDispatcher(structure, middlewareNames),
   ].join('\n')
 
-  // Write server contract
-  fs.writeFileSync(contractPath, code)
+  // Write server contract, with a source map of its route modules (stack
+  // traces then point at app/ and api/ files instead of contract.js lines)
+  let sourceMapPath: string | null = null
+  if (routeBundle.map) {
+    sourceMapPath = `${contractPath}.map`
+    const line = code.slice(0, code.indexOf(routeBundle.code)).split('\n').length - 1
+    writeIfChanged(sourceMapPath, JSON.stringify(offsetSourceMap(routeBundle.map, line)))
+    writeIfChanged(contractPath, `${code}\n//# sourceMappingURL=${path.basename(sourceMapPath)}\n`)
+  } else {
+    writeIfChanged(contractPath, code)
+    fs.rmSync(`${contractPath}.map`, { force: true })
+  }
 
   // Generate client component bundle if there are client components
   let clientBundlePath: string | null = null
+  const files = new Set(routeBundle.files)
   if (clientComponents.length > 0) {
-    clientBundlePath = await generateClientBundle(clientComponents, outDir)
+    const clientBundle = await generateClientBundle(clientComponents, structure.root, outDir, options, cache)
+    clientBundlePath = clientBundle.path
+    clientBundle.files.forEach(file => files.add(file))
   }
 
-  return { contractPath, clientBundlePath }
+  return { contractPath, sourceMapPath, clientBundlePath, moduleStats: routeBundle.stats, files: [...files] }
+}
+
+/**
+ * Write a file unless it already has this content, so a rebuild that changes
+ * nothing leaves the output (and its mtime) alone
+ */
+function writeIfChanged(filePath: string, content: string) {
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === content) return
+  fs.writeFileSync(filePath, content)
+}
+
+/**
+ * Throw if two routes of the same kind match the same URLs
+ */
+function assertNoRouteConflicts(routes: RouteFile[], kind: string) {
+  const conflict = findRouteConflict(routes)
+  if (conflict) {
+    const [a, b] = conflict
+    throw new Error(
+      `Conflicting ${kind} routes "${a.routePath}" and "${b.routePath}" match the same URLs:\n` +
+      `  ${a.filePath}\n` +
+      `  ${b.filePath}`
+    )
+  }
 }
 
 /**
@@ -429,8 +473,11 @@ ${refs}`
  */
 async function generateClientBundle(
   clientComponents: ClientComponent[],
-  outDir: string
-): Promise<string> {
+  root: string,
+  outDir: string,
+  options: ContractOptions,
+  cache?: ContractCache
+): Promise<{ path: string; files: string[] }> {
   const clientBundlePath = path.join(outDir, 'client-components.js')
 
   // Create a virtual entry that imports and registers all client components
@@ -439,67 +486,158 @@ async function generateClientBundle(
 window.__registerClientComponent('${cc.moduleId}', Component_${i});`
   }).join('\n')
 
-  // Write temporary entry file
-  const tempEntry = path.join(outDir, '_client-entry.js')
-  fs.writeFileSync(tempEntry, `// Auto-generated client component registry
+  const key = JSON.stringify({ clientComponents, basePath: options.basePath, i18n: options.i18n })
+  const result = await cachedBuild(cache, 'client-components', key, {
+    stdin: {
+      contents: `// Auto-generated client component registry
 ${entryCode}
-`)
+`,
+      resolveDir: outDir,
+      sourcefile: '_client-entry.js',
+      loader: 'js',
+    },
+    bundle: true,
+    format: 'esm',
+    platform: 'browser',
+    write: false,
+    jsx: 'automatic',
+    minify: false,
+    metafile: true,
+    external: ['react', 'react-dom'],
+    // Client components can call API handlers through virtual:addis-api
+    plugins: [
+      createImportBoundaryPlugin('client', root),
+      createApiClientPlugin({ basePath: options.basePath }),
+      createI18nClientPlugin({ i18n: options.i18n, basePath: options.basePath }),
+    ],
+  })
 
-  try {
-    const result = await build({
-      entryPoints: [tempEntry],
-      bundle: true,
-      format: 'esm',
-      platform: 'browser',
-      write: false,
-      jsx: 'automatic',
-      minify: false,
-      external: ['react', 'react-dom'],
-    })
+  writeIfChanged(clientBundlePath, result.outputFiles![0].text)
 
-    fs.writeFileSync(clientBundlePath, result.outputFiles[0].text)
-  } finally {
-    // Clean up temp file
-    if (fs.existsSync(tempEntry)) {
-      fs.unlinkSync(tempEntry)
-    }
+  return { path: clientBundlePath, files: bundledFiles(result.metafile!) }
+}
+
+/**
+ * Compile a plugin-provided runtime module (lib/) for inlining at contract top level
+ * The routers call its declarations directly, route modules reach them through
+ * RUNTIME_MODULES (see createRuntimeModulePlugin)
+ */
+async function compileRuntimeModule(filePath: string): Promise<{ code: string; exports: string[] }> {
+  const result = await build({
+    entryPoints: [filePath],
+    format: 'esm',
+    write: false,
+    metafile: true,
+  })
+  const [output] = Object.values(result.metafile.outputs)
+
+  // Top-level declarations only, so dropping the export keyword is enough
+  return {
+    code: result.outputFiles[0].text.replace(/^export\s+/gm, '').trim(),
+    exports: output.exports,
   }
+}
+
+/**
+ * Generate the RUNTIME_MODULES table route modules import from
+ */
+function generateModuleTables(libRuntimes: Map<string, string[]>, edgeImports: string[]): string {
+  const entries = [
+    ...[...libRuntimes].map(([specifier, names]) => `  ${JSON.stringify(specifier)}: { ${names.join(', ')} },`),
+    ...edgeImports.map(specifier => `  ${JSON.stringify(specifier)}: ${edgeModuleName(specifier)},`),
+    ...REACT_MODULES.map(specifier => `  ${JSON.stringify(specifier)}: REACT_RUNTIME,`),
+  ]
+
+  return `// React imports resolve to the globals tana-edge provides
+const REACT_RUNTIME = { jsx, jsxs, Fragment, Suspense };
+
+// Modules route files import, by specifier
+const RUNTIME_MODULES = {
+${entries.join('\n')}
+};`
+}
 
-  return clientBundlePath
+/**
+ * Namespace a tana-edge module is imported as (tana/kv → tana_kv)
+ */
+function edgeModuleName(specifier: string): string {
+  return specifier.replace(/\W/g, '_')
 }
 
 /**
- * Bundle a single file and transform it for inlining
- * Returns { code, componentName } where componentName is the unique alias for the export
+ * Route module registered in ROUTE_MODULES under a unique alias
+ * Returns { code, componentName, module }: the code binds the module's default
+ * export to componentName
+ */
+function routeModule(type: string, index: number): BundleResult {
+  // Generate unique alias name based on type and index
+  const aliasName = type === 'page' ? `Page_${index}` :
+                    type === 'layout' ? `Layout_${index}` :
+                    type === 'error' ? `Error_${index}` :
+                    type === 'not-found' ? `NotFound_${index}` :
+                    type === 'loading' ? `Loading_${index}` :
+                    type === 'middleware' ? `Middleware_${index}` :
+                    type in API_HANDLERS ? `${type[0].toUpperCase()}${type.slice(1)}Handler_${index}` :
+                    type === 'init' ? 'initHandler' :
+                    type === 'contract' ? 'contractHandler' : `Handler_${index}`
+
+  const module = `ROUTE_MODULES.${aliasName}`
+  return { code: `const ${aliasName} = ${module}.default;`, componentName: aliasName, module }
+}
+
+/**
+ * Bundle every route file in one esbuild pass for inlining
+ * Returns code declaring ROUTE_MODULES (each route's exports by alias), its
+ * source map, the runtime modules they import and the bundle's size (and,
+ * without a cache, the size of the route files bundled one at a time)
  *
  * When clientComponents is provided, imports of those files are replaced with
  * client references instead of being inlined.
  */
-async function bundleFile(
-  filePath: string,
-  type: string,
-  index: number,
-  clientComponents: ClientComponent[] = []
-): Promise<{ code: string; componentName: string }> {
-  const plugins = clientComponents.length > 0
-    ? [createClientComponentPlugin(clientComponents)]
-    : []
+async function bundleRouteModules(
+  entries: Array<{ filePath: string; alias: string }>,
+  root: string,
+  contractPath: string,
+  clientComponents: ClientComponent[] = [],
+  cache?: ContractCache
+): Promise<{ code: string; map: SourceMap | null; runtimeImports: string[]; files: string[]; stats: RouteModuleStats }> {
+  if (entries.length === 0) {
+    return {
+      code: 'const ROUTE_MODULES = {};',
+      map: null,
+      runtimeImports: [],
+      files: [],
+      stats: { modules: 0, sharedFiles: 0, size: 0, moduleSizes: {} },
+    }
+  }
 
-  const result = await build({
-    entryPoints: [filePath],
+  const plugins = [
+    // Before the runtime modules plugin, so the boundary sees every import
+    createImportBoundaryPlugin('server', root),
+    createRuntimeModulePlugin(),
+    ...(clientComponents.length > 0 ? [createClientComponentPlugin(clientComponents)] : []),
+  ]
+
+  // A virtual entry re-exporting each route file under its alias, bundled as
+  // ESM (route files may use top-level await) and wrapped in an async factory
+  // that keeps module-level names private and returns the ROUTE_MODULES object
+  const buildOptions = (routeEntries: typeof entries): BuildOptions => ({
+    stdin: {
+      contents: routeEntries.map(entry => `export * as ${entry.alias} from ${JSON.stringify(entry.filePath)};`).join('\n'),
+      resolveDir: path.dirname(routeEntries[0].filePath),
+      sourcefile: 'route-modules.js',
+      loader: 'js',
+    },
     bundle: true,
     format: 'esm',
     platform: 'neutral',
     write: false,
+    metafile: true,
+    // Sources relative to contract.js, without their contents (only file and line are needed)
+    outfile: contractPath,
+    sourcemap: 'external',
+    sourcesContent: false,
     plugins,
-    external: [
-      // RSC: We use the global jsx/Fragment/Suspense from tana-edge's rsc-runtime.js
-      // No react-dom/server needed - tana-edge handles Flight serialization
-      'react', 'react-dom', 'react/jsx-runtime',
-      // Tana runtime modules (provided by tana-edge)
-      // Note: tana/db is NOT external - it gets bundled from lib/db/ with query builder code
-      'tana/http', 'tana/net', 'tana/kv', 'tana/block', 'tana/context', 'tana/tx', 'tana/core',
-    ],
     alias: {
       // Resolve tana/db to our bundled query builder library
       'tana/db': path.resolve(__dirname, '../lib/db/index.ts'),
@@ -508,173 +646,373 @@ async function bundleFile(
     minify: false, // Never minify server bundles
     treeShaking: true,
   })
+  const key = JSON.stringify({ entries, clientComponents, contractPath })
+  const result = await cachedBuild(cache, 'route-modules', key, buildOptions(entries))
+
+  // The entry's export list becomes the factory's return value
+  const outputFiles = result.outputFiles!
+  const metafile = result.metafile!
+  const mapFile = outputFiles.find(file => file.path.endsWith('.map'))!
+  const output = outputFiles.find(file => file !== mapFile)!.text.trimEnd()
+  const exportList = output.match(ESM_EXPORTS)
+  if (!exportList) {
+    throw new Error('Unexpected bundle output for route modules')
+  }
+  const exported = exportList[1].split(',').map(name => name.trim()).filter(Boolean).map(name => {
+    const [local, alias = local] = name.split(/\s+as\s+/)
+    return `${alias}: ${local}`
+  })
 
-  let code = result.outputFiles[0].text
+  const header = `// Exports of every route module (pages, layouts, boundaries, middleware,
+// handlers), by alias
+const ROUTE_MODULES = await (async () => {`
 
-  // Generate unique alias name based on type and index
-  const aliasName = type === 'page' ? `Page_${index}` :
-                    type === 'get' ? `GetHandler_${index}` :
-                    type === 'post' ? `PostHandler_${index}` :
-                    type === 'init' ? 'initHandler' :
-                    type === 'contract' ? 'contractHandler' : `Handler_${index}`
+  return {
+    code: `${header}
+${output.slice(0, exportList.index)}
+return { ${exported.join(', ')} };
+})();`,
+    map: offsetSourceMap(JSON.parse(mapFile.text), header.split('\n').length),
+    // Runtime modules load from the tana-runtime namespace (see createRuntimeModulePlugin)
+    runtimeImports: Object.keys(metafile.inputs)
+      .filter(input => input.startsWith('tana-runtime:'))
+      .map(input => input.slice('tana-runtime:'.length)),
+    files: bundledFiles(metafile),
+    stats: {
+      ...routeModuleStats(metafile, entries.length),
+      // One build per route file - one-off builds only, dev rebuilds (with a cache) skip it
+      ...(cache ? {} : { separateSize: await separateBundleSize(entries, buildOptions) }),
+    },
+  }
+}
 
-  // Remove import statements (they'll be at module top level)
-  code = code.replace(/^import\s+.*?from\s+["'].*?["'];?\s*$/gm, '')
+/**
+ * Bytes of the route modules bundled one file at a time, as they were before
+ * being bundled together - every file a route imports is repeated in its bundle
+ */
+async function separateBundleSize<T extends { filePath: string }>(
+  entries: T[],
+  buildOptions: (entries: T[]) => BuildOptions
+): Promise<number> {
+  let size = 0
+  // One at a time - these builds only measure
+  for (const entry of entries) {
+    const { metafile } = await build(buildOptions([entry]))
+    size += Object.entries(metafile!.outputs).find(([file]) => !file.endsWith('.map'))![1].bytes
+  }
+  return size
+}
 
-  // Find the original function name from the export statement and rename it
-  // Pattern: export { FunctionName as default };
-  let originalName: string | null = null
-  code = code.replace(/export\s*\{\s*(\w+)\s+as\s+default\s*\};?\s*$/m, (match, name) => {
-    originalName = name
-    return '' // Remove the export statement
-  })
+/**
+ * Absolute paths of the files in a bundle - not virtual modules (tana-runtime,
+ * client-ref, ...) or the stdin entry
+ */
+function bundledFiles(metafile: Metafile): string[] {
+  return Object.keys(metafile.inputs)
+    .filter(input => !input.includes(':'))
+    .map(input => path.resolve(input))
+    .filter(file => fs.existsSync(file))
+}
 
-  // Also handle: export default function Name()
-  if (!originalName) {
-    const match = code.match(/export\s+default\s+function\s+(\w+)/)
-    if (match) {
-      originalName = match[1]
-      code = code.replace(/export\s+default\s+function\s+(\w+)/, 'function $1')
+/**
+ * Sizes of a route modules bundle: the whole bundle, and the bytes each route
+ * file itself adds to it (not counting the files it imports)
+ */
+function routeModuleStats(metafile: Metafile, modules: number): RouteModuleStats {
+  const output = Object.entries(metafile.outputs).find(([file]) => !file.endsWith('.map'))![1]
+  const entry = Object.keys(metafile.inputs).find(input => input.endsWith('route-modules.js'))!
+  const routeInputs = metafile.inputs[entry].imports.map(imported => imported.path)
+
+  // Files reached from more than one route file are included once
+  const reachedBy = new Map<string, number>()
+  for (const routeInput of routeInputs) {
+    const reached = new Set<string>()
+    const pending = [routeInput]
+    while (pending.length > 0) {
+      const input = pending.pop()!
+      if (reached.has(input) || !metafile.inputs[input]) continue
+      reached.add(input)
+      pending.push(...metafile.inputs[input].imports.map(imported => imported.path))
     }
+    for (const input of reached) reachedBy.set(input, (reachedBy.get(input) ?? 0) + 1)
   }
 
-  // Also handle: export default Name (reference to existing function)
-  if (!originalName) {
-    code = code.replace(/export\s+default\s+(\w+);?\s*$/m, (match, name) => {
-      originalName = name
-      return ''
-    })
-  }
+  // Runtime module shims (tana-runtime:...) and client references don't count as files
+  const sharedFiles = [...reachedBy].filter(([input, count]) => count > 1 && !input.includes(':')).length
 
-  // Rename the original function to the unique alias name
-  // This avoids hoisting issues when multiple handlers have the same name (e.g., "handler")
-  if (originalName && originalName !== aliasName) {
-    // Rename function declaration: function handler( -> function GetHandler_0(
-    code = code.replace(
-      new RegExp(`function\\s+${originalName}\\s*\\(`),
-      `function ${aliasName}(`
-    )
+  const moduleSizes: Record<string, number> = {}
+  for (const routeInput of routeInputs) {
+    moduleSizes[path.resolve(routeInput)] = output.inputs[routeInput]?.bytesInOutput ?? 0
   }
 
-  // Clean up empty lines
-  code = code.replace(/\n{3,}/g, '\n\n').trim()
+  return { modules, sharedFiles, size: output.bytes, moduleSizes }
+}
+
+/**
+ * Create esbuild plugin resolving runtime module imports (tana/*, React) to
+ * the contract's RUNTIME_MODULES table
+ */
+function createRuntimeModulePlugin() {
+  const specifiers = [...Object.keys(LIB_RUNTIME_MODULES), ...EDGE_MODULES, ...REACT_MODULES]
+  const filter = new RegExp(`^(${specifiers.join('|')})$`)
 
-  return { code, componentName: aliasName }
+  return {
+    name: 'tana-runtime-modules',
+    setup(build: any) {
+      build.onResolve({ filter }, (args: any) => ({ path: args.path, namespace: 'tana-runtime' }))
+
+      build.onLoad({ filter: /.*/, namespace: 'tana-runtime' }, (args: any) => ({
+        contents: `module.exports = RUNTIME_MODULES[${JSON.stringify(args.path)}];`,
+        loader: 'js',
+      }))
+    },
+  }
 }
 
 /**
  * Generate RSC page router
  * Returns async Page() function that tana-edge will render via Flight protocol
  * Components are defined at module top level, this just routes to them
+ * Each page runs its middleware chain, then renders inside its segment chain
+ * (layouts, error, not-found and loading boundaries, root → leaf)
  */
-function generateRSCRouter(pages: RouteFile[], bundles: BundleResult[]): string {
+function generateRSCRouter(
+  structure: ProjectStructure,
+  bundles: BundleResult[],
+  middlewareNames: Map<string, string>,
+  segmentBundles: Array<[RouteFile[], BundleResult[]]>
+): string {
+  const { pages } = structure
+
   if (pages.length === 0) {
     return `// No pages defined
-export async function Page(props) {
-  return jsx('div', { children: '404 - Page Not Found' });
+export async function Page(props = {}) {
+  return jsx(DefaultNotFound, { request: props.request });
 }
 
-export function Get(request) {
-  const { path, method } = request;
+export async function staticRoutes() {
+  return [];
+}
 
-  // Handle API routes
-  if (path.startsWith('/api') || path.startsWith('api')) {
-    const apiPath = path.startsWith('/api') ? path.slice(4) : path.slice(3);
-    const normalizedPath = apiPath === '' ? '/' : (apiPath.startsWith('/') ? apiPath : '/' + apiPath);
-    const apiRequest = { ...request, path: normalizedPath };
+${generatePageGetHandler()}`
+  }
 
-    if (method === 'POST') {
-      return post(apiRequest);
-    }
-    return get(apiRequest);
+  // Map segment file paths to their bundles
+  const segmentModules = new Map<string, BundleResult>()
+  for (const [files, fileBundles] of segmentBundles) {
+    files.forEach((file, i) => segmentModules.set(file.filePath, fileBundles[i]))
   }
+  const segmentNames = new Map([...segmentModules].map(([filePath, bundle]) => [filePath, bundle.componentName]))
 
-  // For page routes, return null - tana-edge will call Page() directly
-  return null;
-}
+  // Layout and page modules of a route, root layout → page
+  const routeModules = (segments: RouteSegment[], page?: BundleResult) => segments
+    .flatMap(segment => segment.layout ? [segmentModules.get(segment.layout)!] : [])
+    .concat(page ? [page] : [])
 
-// Alias for tana-edge contract spec compatibility
-export const ssr = Page;`
+  const moduleList = (segments: RouteSegment[], page?: BundleResult) =>
+    `[${routeModules(segments, page).map(bundle => bundle.module).join(', ')}]`
+
+  const segmentLiteral = (segment: RouteSegment) => {
+    const fields = (Object.keys(SEGMENT_FILES) as (keyof RouteSegment)[])
+      .filter(key => segment[key])
+      .map(key => `${key}: ${segmentNames.get(segment[key]!)}`)
+    return `{ ${fields.join(', ')} }`
   }
 
-  // Generate route matching for Page component
-  const pageMatches = pages.map((page, i) => {
+  // Page routes in ranked order, so findRoute() returns the most specific match
+  const routeEntries = pages.map((page, i) => {
     const componentName = bundles[i].componentName
+    const segments = `[${(page.segments || []).map(segmentLiteral).join(', ')}]`
+    const middleware = middlewareList(page.middleware, middlewareNames)
+    const modules = moduleList(page.segments || [], bundles[i])
 
-    if (page.params) {
-      // Dynamic route - use pattern matching
-      const pattern = page.routePath.split('/').map(seg =>
-        seg.startsWith(':') ? '([^/]+)' : seg
-      ).join('\\/')
-
-      return `  // ${page.routePath}
-  if (path.match(/^${pattern}$/)) {
-    const params = extractParams(path, "${page.routePath}");
-    return jsx(${componentName}, { request: props.request, params });
-  }`
-    } else {
-      // Static route
-      return `  if (path === '${page.routePath}') {
-    return jsx(${componentName}, { request: props.request });
-  }`
-    }
-  }).join('\n\n')
+    return `  // ${page.routePath}
+  { pattern: '${page.routePath}', Component: ${componentName}, segments: ${segments}, middleware: ${middleware}, modules: ${modules} },`
+  }).join('\n')
 
-  return `// Helper: Extract dynamic params from path
-function extractParams(path, pattern) {
-  const segments = path.split('/').filter(Boolean);
-  const patternSegments = pattern.split('/').filter(Boolean);
-  const params = {};
+  // Unmatched URLs run app/middleware.ts, then render app/not-found.tsx (or the
+  // built-in page) inside the root layout
+  const rootSegment = structure.rootSegment
+  const rootNotFound = rootSegment?.notFound ? segmentNames.get(rootSegment.notFound) : 'DefaultNotFound'
+  const rootLayout = rootSegment?.layout ? `[{ layout: ${segmentNames.get(rootSegment.layout)} }]` : '[]'
+  const rootModules = rootSegment ? moduleList([rootSegment]) : '[]'
+  const rootMiddleware = middlewareList(
+    structure.rootMiddleware.app ? [structure.rootMiddleware.app] : [],
+    middlewareNames
+  )
 
-  patternSegments.forEach((seg, i) => {
-    if (seg.startsWith(':')) {
-      params[seg.slice(1)] = segments[i];
-    }
-  });
+  return `// Page routes, most specific first - modules are the layouts' (root →
+// leaf) and the page's, which metadata and cache exports are read from
+const PAGE_ROUTES = [
+${routeEntries}
+].map(route => ({ ...route, cache: routeCache(route.modules) }));
 
-  return params;
-}
+// Middleware for URLs no page matches
+const PAGE_MIDDLEWARE = ${rootMiddleware};
+
+// Modules whose metadata the 404 page gets (the root layout's)
+const NOT_FOUND_MODULES = ${rootModules};
 
 /**
  * RSC Page Router - Async Server Component
  * tana-edge calls this and serializes the result via Flight protocol
+ * Prerendering passes props.trace, which records the status the response
+ * would have and whether the page read its searchParams
  */
 export async function Page(props = {}) {
-  const path = props.request?.path || '/';
+  const { trace } = props;
+  let request = withSearchParams(props.request || { path: '/' });
+  const searchParams = trace ? traceSearchParams(request.searchParams, trace) : request.searchParams;
+
+  const canonical = canonicalPath(request.path);
+  if (canonical !== request.path) {
+    traceStatus(trace, 308);
+    return renderRefresh(canonical + request.search);
+  }
 
-${pageMatches}
+  const appPath = stripBasePath(request.path);
+  if (appPath === null) return await renderNotFound(request, searchParams, trace);
+
+  // Routes, rules and middleware see the path without its locale prefix
+  const { locale, path, prefixed } = splitLocale(appPath);
+  request = { ...request, locale };
+  if (I18N?.localeDetection && !prefixed && path === '/') {
+    const preferred = detectLocale(request);
+    if (preferred !== I18N.defaultLocale) {
+      traceStatus(trace, 307);
+      return renderRefresh(withBasePath(withLocale('/', preferred)) + request.search);
+    }
+  }
+
+  const redirectTo = findRedirect(path);
+  if (redirectTo) {
+    traceStatus(trace, redirectTo.status);
+    return renderRedirect(redirectTo, locale);
+  }
+  request = rewriteRequest({ ...request, path });
+
+  try {
+    let match = findRoute(PAGE_ROUTES, request.path);
+
+    const outcome = await runMiddleware(match ? match.route.middleware : PAGE_MIDDLEWARE, request);
+    if (outcome.response) {
+      traceStatus(trace, outcome.response.status ?? 200);
+      return renderMiddlewareResponse(outcome.response);
+    }
+    if (outcome.request.path !== request.path) {
+      match = findRoute(PAGE_ROUTES, outcome.request.path);
+    }
+    request = outcome.request;
+
+    if (match) {
+      // A traced render must run, so the trace sees it
+      const cache = trace ? null : match.route.cache;
+      return await cachedRender(cache, withLocale(request.path, locale) + request.search, async () => {
+        const routeProps = { request, params: match.params, searchParams, locale };
+        // Resolved first, so notFound() / redirect() in generateMetadata() work like in the page
+        const metadata = await resolveMetadata(match.route.modules, routeProps);
+        return withMetadata(await renderRoute(match.route.Component, match.route.segments, routeProps, trace), metadata);
+      });
+    }
+  } catch (error) {
+    if (isRedirectError(error)) {
+      traceStatus(trace, error.status);
+      return renderRedirect(error, locale);
+    }
+    if (!isNotFoundError(error)) throw error;
+  }
 
   // 404 fallback
-  return jsx('div', {
-    style: { padding: '40px', textAlign: 'center' },
-    children: [
-      jsx('h1', { key: 'title', children: '404' }),
-      jsx('p', { key: 'msg', children: 'Page not found: ' + path })
-    ]
-  });
+  return await renderNotFound(request, searchParams, trace);
+}
+
+// Helper: Render the 404 page inside the root layout
+async function renderNotFound(request, searchParams, trace) {
+  traceStatus(trace, 404);
+  const props = { request, params: {}, searchParams, locale: request.locale };
+  const metadata = await resolveMetadata(NOT_FOUND_MODULES, props);
+  return withMetadata(await renderRoute(${rootNotFound}, ${rootLayout}, props, trace), metadata);
+}
+
+/**
+ * Routes tanaBuild prerenders: static pages, and dynamic pages for each
+ * params object their generateStaticParams() returns - once per locale
+ * Pages behind middleware, with caching turned off (force-dynamic,
+ * revalidate = 0) or with cache tags (revalidateTag() can't refresh a
+ * prerendered file) always render on the edge
+ */
+export async function staticRoutes() {
+  const routes = [];
+  const locales = I18N ? I18N.locales : [undefined];
+
+  for (const route of PAGE_ROUTES) {
+    if (route.middleware.length > 0 || route.cache?.cacheControl === 'no-store' || route.cache?.tags.length > 0) continue;
+    const cacheControl = route.cache?.cacheControl ?? null;
+
+    const { generateStaticParams } = route.modules[route.modules.length - 1];
+    const paramsList = !route.pattern.includes(':') ? [{}]
+      : generateStaticParams ? await generateStaticParams()
+      : [];
+    for (const params of paramsList) {
+      for (const locale of locales) {
+        routes.push({ pattern: route.pattern, params, cacheControl, locale });
+      }
+    }
+  }
+
+  return routes;
+}
+
+${generatePageGetHandler()}`
 }
 
 /**
+ * Array literal of the bundled middleware functions for a chain
+ */
+function middlewareList(chain: string[] | undefined, middlewareNames: Map<string, string>): string {
+  return `[${(chain || []).map(filePath => middlewareNames.get(filePath)).join(', ')}]`
+}
+
+/**
+ * Generate the Get() export and ssr alias shared by both router variants
+ */
+function generatePageGetHandler(): string {
+  return `/**
  * Get handler for API routes
  * Page routes are handled by Page() via RSC
  */
-export function Get(request) {
-  const { path, method } = request;
+export async function Get(request) {
+  request = withSearchParams(request);
+
+  // For page routes, return null - tana-edge will use Page() via RSC
+  const requestPath = stripBasePath(request.path);
+  if (requestPath === null || !isApiPath(requestPath)) {
+    return null;
+  }
 
-  // Handle API routes - delegate to get/post handlers
-  if (path.startsWith('/api') || path.startsWith('api')) {
-    const apiPath = path.startsWith('/api') ? path.slice(4) : path.slice(3);
-    const normalizedPath = apiPath === '' ? '/' : (apiPath.startsWith('/') ? apiPath : '/' + apiPath);
-    const apiRequest = { ...request, path: normalizedPath };
+  const redirectTo = findRedirect(requestPath);
+  if (redirectTo) {
+    return { status: redirectTo.status, body: '', headers: { 'Location': withBasePath(redirectTo.url) } };
+  }
 
-    if (method === 'POST') {
-      return post(apiRequest);
-    }
-    return get(apiRequest);
+  // Rewritten to a page - Page() applies the same rewrite
+  const { path } = rewriteRequest({ ...request, path: requestPath });
+  if (!isApiPath(path)) {
+    return null;
   }
 
-  // For page routes, return null - tana-edge will use Page() via RSC
-  return null;
+  // Handle API routes - dispatch to the router for the HTTP method
+  const apiPath = path.startsWith('/api') ? path.slice(4) : path.slice(3);
+  const normalizedPath = apiPath === '' ? '/' : (apiPath.startsWith('/') ? apiPath : '/' + apiPath);
+  const apiRequest = { ...request, path: normalizedPath };
+
+  const response = await dispatchApi(apiRequest);
+  return withHeaders(response, ruleHeaders(requestPath));
+}
+
+// Helper: Whether a request path is served by the API routers
+function isApiPath(path) {
+  return path.startsWith('/api') || path.startsWith('api');
 }
 
 // Alias for tana-edge contract spec compatibility
@@ -683,52 +1021,817 @@ export const ssr = Page;`
 }
 
 /**
- * Generate API router function (get or post)
+ * Generate API router function for one HTTP method (get, post, put, ...)
  * Handlers are defined at module top level, this just routes to them
  */
-function generateAPIRouter(routes: RouteFile[], bundles: BundleResult[], method: 'get' | 'post'): string {
+function generateAPIRouter(routes: RouteFile[], bundles: BundleResult[], method: ApiMethod): string {
+  // `delete` is a reserved word, so its router is declared as del() and exported under the method name
+  const routerName = apiRouterName(method)
+  const exportKeyword = routerName === method ? 'export ' : ''
+  const exportAlias = routerName === method ? '' : `\nexport { ${routerName} as ${method} };`
+
   if (routes.length === 0) {
-    return `export function ${method}(request) {
+    return `${exportKeyword}function ${routerName}(request) {
+  return notFoundResponse();
+}${exportAlias}`
+  }
+
+  // ETags only make sense for responses a client can cache and revalidate
+  const conditional = method === 'get' || method === 'head'
+
+  const matches = routes.map((route, i) => {
+    const handlerName = bundles[i].componentName
+
+    return `    // ${route.routePath}
+    if ((params = matchRoute(request.path, '${route.routePath}'))) {
+      return withCache(await ${handlerName}({ ...request, params }), ${handlerName}_cache, request, ${conditional});
+    }`
+  }).join('\n\n')
+
+  // Cache policy of each handler, from its revalidate / dynamic / tags exports
+  const cacheConstants = bundles
+    .map(bundle => `const ${bundle.componentName}_cache = routeCache([${bundle.module}]);\n`)
+    .join('')
+
+  return `${cacheConstants}${exportKeyword}async function ${routerName}(request) {
+  let params;
+
+  try {
+${matches}
+  } catch (error) {
+    return handleRouteError(error);
+  }
+
+  return notFoundResponse();
+}${exportAlias}`
+}
+
+/**
+ * Name of the generated router function for an HTTP method
+ */
+function apiRouterName(method: ApiMethod): string {
+  return method === 'delete' ? 'del' : method
+}
+
+/**
+ * Generate the API dispatcher used by Get()
+ * Routes by HTTP method and answers what no handler covers: HEAD falls back
+ * to GET, OPTIONS lists the allowed methods, anything else on a known path
+ * gets 405 Method Not Allowed with an Allow header
+ */
+function generateAPIDispatcher(structure: ProjectStructure, middlewareNames: Map<string, string>): string {
+  const methods = API_METHODS.filter(method => structure[API_HANDLERS[method]].length > 0)
+
+  const routeTable = methods.map(method => {
+    const routes = structure[API_HANDLERS[method]].map(route =>
+      `    { pattern: '${route.routePath}', middleware: ${middlewareList(route.middleware, middlewareNames)} },`
+    ).join('\n')
+    return `  ${method.toUpperCase()}: [\n${routes}\n  ],`
+  }).join('\n')
+
+  const rootMiddleware = middlewareList(
+    structure.rootMiddleware.api ? [structure.rootMiddleware.api] : [],
+    middlewareNames
+  )
+
+  const routerTable = methods.map(method => `  ${method.toUpperCase()}: ${apiRouterName(method)},`).join('\n')
+
+  return `// HTTP method → routes with a handler (pattern and middleware chain)
+const API_ROUTES = {
+${routeTable}
+};
+
+// Middleware for paths no handler matches
+const API_MIDDLEWARE = ${rootMiddleware};
+
+// HTTP method → generated router
+const API_ROUTERS = {
+${routerTable}
+};
+
+// Helper: Methods the API answers for a path (empty if the path is unknown)
+// HEAD is implied by GET, OPTIONS is always answered
+function allowedMethods(path) {
+  const allowed = Object.keys(API_ROUTES).filter(method =>
+    findRoute(API_ROUTES[method], path)
+  );
+  if (allowed.length === 0) return allowed;
+
+  if (allowed.includes('GET') && !allowed.includes('HEAD')) allowed.push('HEAD');
+  if (!allowed.includes('OPTIONS')) allowed.push('OPTIONS');
+  return allowed;
+}
+
+// Helper: Middleware chain for an API request - the chain of the handler for
+// its method, else of any handler on the path (405 / OPTIONS), else api/middleware.ts
+function apiMiddleware(method, path) {
+  const own = API_ROUTES[method] && findRoute(API_ROUTES[method], path);
+  if (own) return own.route.middleware;
+
+  for (const routes of Object.values(API_ROUTES)) {
+    const match = findRoute(routes, path);
+    if (match) return match.route.middleware;
+  }
+  return API_MIDDLEWARE;
+}
+
+/**
+ * API dispatcher - runs the middleware chain, then routes the (possibly
+ * rewritten) request to the router for its HTTP method
+ */
+async function dispatchApi(request) {
+  const method = (request.method || 'GET').toUpperCase();
+
+  let outcome;
+  try {
+    outcome = await runMiddleware(apiMiddleware(method, request.path), request);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+  if (outcome.response) return outcome.response;
+
+  const response = await routeApi(outcome.request, method);
+  return withHeaders(response, outcome.responseHeaders);
+}
+
+// Helper: Route an API request to the router for its HTTP method
+async function routeApi(request, method) {
+  const allowed = allowedMethods(request.path);
+
+  if (allowed.length === 0) {
+    return notFoundResponse();
+  }
+
+  if (API_ROUTES[method] && findRoute(API_ROUTES[method], request.path)) {
+    return API_ROUTERS[method](request);
+  }
+
+  // HEAD without a head.ts: same response as GET, minus the body
+  if (method === 'HEAD' && allowed.includes('GET')) {
+    const response = await API_ROUTERS.GET(request);
+    return { ...response, body: '' };
+  }
+
+  const allow = allowed.join(', ');
+
+  if (method === 'OPTIONS') {
+    return { status: 204, body: '', headers: { 'Allow': allow } };
+  }
+
+  return {
+    status: 405,
+    body: { error: 'Method not allowed' },
+    headers: { 'Content-Type': 'application/json', 'Allow': allow }
+  };
+}`
+}
+
+/**
+ * Generate the redirects, rewrites and headers options as rule tables, with the
+ * helpers Page() and Get() apply them with (src/rules.ts does the same in dev)
+ */
+function generateRoutingRules(options: ContractOptions): string {
+  const { redirects = [], rewrites = [], headers = [], trailingSlash } = options
+  const basePath = normalizeBasePath(options.basePath)
+
+  const table = (rules: object[]) => rules.length > 0
+    ? `[\n${rules.map(rule => `  ${JSON.stringify(rule)},`).join('\n')}\n]`
+    : '[]'
+
+  return `// Sub-path the app is mounted under ('' for /) - routes, rules and
+// redirect() URLs are relative to it
+const BASE_PATH = ${JSON.stringify(basePath)};
+
+// Canonical trailing slash for page URLs: 'always', 'never' or null (both served)
+const TRAILING_SLASH = ${JSON.stringify(trailingSlash ?? null)};
+
+// Rules from the plugin options - sources are route patterns
+const REDIRECTS = ${table(redirects.map(rule => ({
+    source: rule.source,
+    destination: rule.destination,
+    status: redirectStatus(rule),
+  })))};
+
+const REWRITES = ${table(rewrites.map(({ source, destination }) => ({ source, destination })))};
+
+const HEADERS = ${table(headers.map(({ source, headers }) => ({ source, headers })))};
+
+// Helper: Substitute :name params into a destination (catch-alls are joined with '/')
+function fillPattern(destination, params) {
+  return destination.replace(/:(\\w+)[+*]?/g, (match, name) =>
+    name in params ? [].concat(params[name]).join('/') : match
+  );
+}
+
+// Helper: First redirect rule matching a path, as { url, status }
+function findRedirect(path) {
+  for (const rule of REDIRECTS) {
+    const params = matchRoute(path, rule.source);
+    if (params) return { url: fillPattern(rule.destination, params), status: rule.status };
+  }
+  return null;
+}
+
+// Helper: Apply the first rewrite rule matching the request path
+function rewriteRequest(request) {
+  for (const rule of REWRITES) {
+    const params = matchRoute(request.path || '/', rule.source);
+    if (params) return { ...request, path: fillPattern(rule.destination, params) };
+  }
+  return request;
+}
+
+// Helper: Headers of every header rule matching a path (later rules win)
+function ruleHeaders(path) {
+  const headers = {};
+  for (const rule of HEADERS) {
+    if (matchRoute(path, rule.source)) Object.assign(headers, rule.headers);
+  }
+  return headers;
+}
+
+// Helper: Remove the base path from a request path - null when outside it
+function stripBasePath(path) {
+  if (!BASE_PATH) return path;
+  if (path === BASE_PATH) return '/';
+  return path.startsWith(BASE_PATH + '/') ? path.slice(BASE_PATH.length) : null;
+}
+
+// Helper: Prefix an app-relative URL with the base path (absolute URLs are left alone)
+function withBasePath(url) {
+  if (!BASE_PATH || !url.startsWith('/') || url.startsWith('//')) return url;
+  return url === '/' ? BASE_PATH : BASE_PATH + url;
+}
+
+// Helper: Canonical form of a page path under TRAILING_SLASH
+// 'always' skips file-like paths (last segment contains a dot)
+function canonicalPath(path) {
+  if (TRAILING_SLASH === 'never' && path.length > 1 && path.endsWith('/')) {
+    return path.replace(/\\/+$/, '') || '/';
+  }
+  if (TRAILING_SLASH === 'always' && !path.endsWith('/')) {
+    const last = path.slice(path.lastIndexOf('/') + 1);
+    if (!last.includes('.')) return path + '/';
+  }
+  return path;
+}`
+}
+
+/**
+ * Generate the i18n option as a locale table, with the helpers Page() splits
+ * and re-adds locale prefixes with (src/i18n.ts does the same in dev)
+ */
+function generateLocaleRouting(options: ContractOptions): string {
+  const { i18n } = options
+  const config = i18n && {
+    locales: i18n.locales,
+    defaultLocale: i18n.defaultLocale,
+    localeDetection: i18n.localeDetection ?? true,
+    localeCookie: i18n.localeCookie ?? DEFAULT_LOCALE_COOKIE,
+  }
+
+  return `// Locales from the i18n option (null: a single-locale app)
+// Page URLs carry a locale prefix (/fr/about) - the default locale's don't
+const I18N = ${JSON.stringify(config ?? null)};
+
+// Helper: Split the locale prefix off a path → { locale, path, prefixed }
+// Unprefixed paths are the default locale
+function splitLocale(path) {
+  if (!I18N) return { locale: undefined, path, prefixed: false };
+  const segment = path.split(/[/?#]/)[1] || '';
+  const locale = segment && I18N.locales.find(candidate => candidate.toLowerCase() === segment.toLowerCase());
+  if (!locale) return { locale: I18N.defaultLocale, path, prefixed: false };
+  const rest = path.slice(segment.length + 1);
+  return { locale, path: rest.startsWith('/') ? rest : '/' + rest, prefixed: true };
+}
+
+// Helper: Prefix an app-relative URL with a locale - default locale URLs stay
+// unprefixed, and absolute or already prefixed URLs are left alone
+function withLocale(url, locale) {
+  if (!I18N || !locale || locale === I18N.defaultLocale) return url;
+  if (!url.startsWith('/') || url.startsWith('//') || splitLocale(url).prefixed) return url;
+  return /^\\/([?#]|$)/.test(url) ? '/' + locale + url.slice(1) : '/' + locale + url;
+}
+
+// Helper: Locale to send a visitor of / to - the locale cookie, then the best
+// Accept-Language match (exact tag first, then language), then the default
+function detectLocale(request) {
+  const headers = request.headers || {};
+  const header = name => Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1] || '';
+
+  const cookie = String(header('cookie')).split(';')
+    .map(pair => pair.trim().split('='))
+    .find(([name]) => name === I18N.localeCookie);
+  const fromCookie = cookie && matchLocale(decodeQueryComponent(cookie.slice(1).join('=')));
+  if (fromCookie) return fromCookie;
+
+  const languages = String(header('accept-language')).split(',')
+    .map(part => {
+      const [tag, ...parameters] = part.trim().split(';');
+      const quality = parameters.map(parameter => parameter.trim()).find(parameter => parameter.startsWith('q='));
+      return { tag: tag.trim(), q: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of languages) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return I18N.defaultLocale;
+}
+
+// Helper: Supported locale for a language tag - 'fr-CA' falls back to 'fr'
+function matchLocale(tag) {
+  const lower = tag.toLowerCase();
+  const language = lower.split('-')[0];
+  return I18N.locales.find(locale => locale.toLowerCase() === lower)
+    ?? I18N.locales.find(locale => locale.toLowerCase().split('-')[0] === language);
+}`
+}
+
+/**
+ * Generate runtime helpers shared by the page and API routers
+ */
+function generateRouteHelpers(): string {
+  return `// Helper: Match a path against a route pattern, returning params or null
+// :name matches one segment, :name+ one or more and :name* zero or more
+// (catch-all params are string arrays)
+function matchRoute(path, pattern) {
+  const segments = path.split('/').filter(Boolean);
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const params = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const seg = patternSegments[i];
+
+    if (seg.startsWith(':') && (seg.endsWith('+') || seg.endsWith('*'))) {
+      const rest = segments.slice(i);
+      if (seg.endsWith('+') && rest.length === 0) return null;
+      params[seg.slice(1, -1)] = rest;
+      return params;
+    }
+
+    if (i >= segments.length) return null;
+
+    if (seg.startsWith(':')) {
+      params[seg.slice(1)] = segments[i];
+    } else if (seg !== segments[i]) {
+      return null;
+    }
+  }
+
+  return segments.length === patternSegments.length ? params : null;
+}
+
+// Helper: First route whose pattern matches the path, with its params
+// Routes are ranked most specific first, so the first match wins
+function findRoute(routes, path) {
+  for (const route of routes) {
+    const params = matchRoute(path, route.pattern);
+    if (params) return { route, params };
+  }
+  return null;
+}
+
+// Helper: Run a middleware chain (outer → inner)
+// A middleware passes through (nothing / next()), rewrites (rewrite()) or
+// short-circuits by returning a response. Later middleware and the route see
+// rewritten paths and injected request headers.
+async function runMiddleware(chain, request) {
+  let responseHeaders = {};
+
+  for (const middleware of chain) {
+    const result = await middleware(request);
+    if (result === undefined || result === null) continue;
+    if (!isMiddlewareResult(result)) return { request, response: result, responseHeaders };
+
+    if (result.headers) request = { ...request, headers: { ...request.headers, ...result.headers } };
+    if (result.responseHeaders) responseHeaders = { ...responseHeaders, ...result.responseHeaders };
+    if (result.path !== undefined) request = { ...request, path: result.path };
+  }
+
+  return { request, response: null, responseHeaders };
+}
+
+// Helper: Add default headers to an API response - its own headers win
+function withHeaders(response, headers) {
+  if (!response || Object.keys(headers).length === 0) return response;
+  return { ...response, headers: { ...headers, ...response.headers } };
+}
+
+// Helper: Render a response returned by page middleware
+// Page() cannot set status or headers, so a Location header becomes a meta
+// refresh and anything else renders its body as text
+function renderMiddlewareResponse(response) {
+  const location = response.headers?.Location || response.headers?.location;
+  if (location) return renderRefresh(location);
+
+  const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+  return jsx('pre', { children: body });
+}
+
+// Helper: Split the query string off a request, adding searchParams (repeated
+// keys become arrays) and search ('?a=1' or ''). The query may arrive as
+// request.query (string or object), request.search or inside request.path.
+function withSearchParams(request) {
+  const fullPath = request.path || '/';
+  const index = fullPath.indexOf('?');
+  const path = index === -1 ? fullPath : fullPath.slice(0, index);
+  const query = request.query ?? request.search ?? (index === -1 ? '' : fullPath.slice(index + 1));
+
+  const searchParams = {};
+  const add = (key, value) => {
+    if (!(key in searchParams)) searchParams[key] = value;
+    else searchParams[key] = [].concat(searchParams[key], value);
+  };
+
+  if (query && typeof query === 'object') {
+    for (const [key, value] of Object.entries(query)) {
+      [].concat(value).forEach(item => add(key, String(item)));
+    }
+  } else if (query) {
+    for (const pair of String(query).replace(/^\\?/, '').split('&')) {
+      if (!pair) continue;
+      const eq = pair.indexOf('=');
+      const key = eq === -1 ? pair : pair.slice(0, eq);
+      add(decodeQueryComponent(key), decodeQueryComponent(eq === -1 ? '' : pair.slice(eq + 1)));
+    }
+  }
+
+  const search = Object.keys(searchParams).length > 0
+    ? '?' + Object.entries(searchParams)
+        .flatMap(([key, value]) => [].concat(value).map(item => encodeURIComponent(key) + '=' + encodeURIComponent(item)))
+        .join('&')
+    : '';
+
+  return { ...request, path, searchParams, search };
+}
+
+// Helper: Decode one query string component ('+' is a space)
+function decodeQueryComponent(value) {
+  try {
+    return decodeURIComponent(value.replace(/\\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+// Helper: Render a server component element eagerly, so errors thrown while
+// rendering reach the nearest boundary instead of tana-edge's serializer
+async function renderElement(element) {
+  while (element && typeof element.type === 'function') {
+    element = await element.type(element.props);
+  }
+  return element;
+}
+
+// Helper: The segment's not-found.tsx / error.tsx element for a failure, if it has one
+function segmentFallback(segment, failure, props) {
+  if (isRedirectError(failure)) return null;
+  if (isNotFoundError(failure)) {
+    return segment.notFound ? jsx(segment.notFound, props) : null;
+  }
+  return segment.error ? jsx(segment.error, { ...props, error: failure }) : null;
+}
+
+// Helper: Render a page inside its segment chain (root → leaf)
+// Walking from the page up, a failure is caught by the nearest not-found.tsx
+// or error.tsx, which renders inside the layout of its own segment.
+// Everything below the outermost loading.tsx streams behind a Suspense fallback.
+async function renderRoute(Component, segments, props, trace) {
+  let content;
+  let failure = null;
+  let i = segments.length - 1;
+
+  const streamAt = segments.findIndex(segment => segment.loading);
+  if (streamAt !== -1) {
+    const boundary = segments[streamAt];
+    content = jsx(Suspense, {
+      fallback: jsx(boundary.loading, props),
+      children: jsx(StreamedRoute, { Component, segments: segments.slice(streamAt + 1), boundary, props, trace })
+    });
+    i = streamAt;
+  } else {
+    try {
+      content = await renderElement(jsx(Component, props));
+    } catch (error) {
+      failure = error;
+    }
+  }
+
+  for (; i >= 0; i--) {
+    const segment = segments[i];
+
+    if (failure) {
+      const fallback = segmentFallback(segment, failure, props);
+      if (fallback) {
+        traceStatus(trace, failureStatus(failure));
+        try {
+          content = await renderElement(fallback);
+          failure = null;
+        } catch (error) {
+          failure = error;
+        }
+      }
+    }
+
+    if (!failure && segment.layout) {
+      try {
+        content = await renderElement(jsx(segment.layout, { ...props, children: content }));
+      } catch (error) {
+        failure = error;
+      }
+    }
+  }
+
+  if (failure) throw failure;
+  return content;
+}
+
+// Helper: Server component for the part of a route below a loading.tsx
+// It renders while tana-edge streams, so failures are handled in place: by the
+// boundaries below it, then by the loading segment's own not-found.tsx / error.tsx
+async function StreamedRoute({ Component, segments, boundary, props, trace }) {
+  try {
+    return await renderRoute(Component, segments, props, trace);
+  } catch (error) {
+    if (isRedirectError(error)) {
+      traceStatus(trace, error.status);
+      return renderRedirect(error, props.locale);
+    }
+    const fallback = segmentFallback(boundary, error, props);
+    if (!fallback) throw error;
+    traceStatus(trace, failureStatus(error));
+    return fallback;
+  }
+}
+
+// Helper: Status of a response rendered by a segment's not-found.tsx / error.tsx
+function failureStatus(failure) {
+  return isNotFoundError(failure) ? 404 : 500;
+}
+
+// Helper: Record the status of a traced render - the first non-200 one wins
+function traceStatus(trace, status) {
+  if (trace && trace.status === 200) trace.status = status;
+}
+
+// Helper: searchParams that mark a traced render once the page reads them
+function traceSearchParams(searchParams, trace) {
+  const read = () => { trace.searchParams = true; };
+  return new Proxy(searchParams, {
+    get(target, key, receiver) { read(); return Reflect.get(target, key, receiver); },
+    has(target, key) { read(); return Reflect.has(target, key); },
+    ownKeys(target) { read(); return Reflect.ownKeys(target); },
+  });
+}
+
+// Helper: Render a redirect() thrown while rendering a page (or a matching
+// redirect rule) - its URL is relative to the base path and stays in the
+// page's locale
+function renderRedirect(error, locale) {
+  return renderRefresh(withBasePath(withLocale(error.url, locale)));
+}
+
+// Helper: Send the browser to a URL as is
+// Page() cannot set response headers, so the browser follows a meta refresh
+function renderRefresh(url) {
+  return jsx('meta', { httpEquiv: 'refresh', content: '0;url=' + url });
+}
+
+// Helper: Turn notFound() / redirect() thrown by an API handler into a response
+function handleRouteError(error) {
+  if (isRedirectError(error)) {
+    return { status: error.status, body: '', headers: { 'Location': withBasePath(error.url) } };
+  }
+  if (isNotFoundError(error)) {
+    return notFoundResponse();
+  }
+  throw error;
+}
+
+// Helper: JSON 404 response for unknown API routes
+function notFoundResponse() {
   return {
     status: 404,
     body: { error: 'Not found' },
     headers: { 'Content-Type': 'application/json' }
   };
+}
+
+// Built-in 404 page, used when app/not-found.tsx is missing
+function DefaultNotFound({ request }) {
+  return jsx('div', {
+    style: { padding: '40px', textAlign: 'center' },
+    children: [
+      jsx('h1', { key: 'title', children: '404' }),
+      jsx('p', { key: 'msg', children: 'Page not found: ' + (request?.path || '/') })
+    ]
+  });
 }`
+}
+
+/**
+ * Generate runtime helpers for the metadata / generateMetadata() exports of
+ * pages and layouts
+ */
+function generateMetadataHelpers(): string {
+  return `// Helper: Merge a route's metadata (root layout → page), later keys win
+// Each module's generateMetadata(props) wins over its metadata object.
+// A title template ('%s | Blog') applies to string titles further down.
+async function resolveMetadata(modules, props) {
+  let metadata = {};
+  let template = null;
+
+  for (const module of modules) {
+    const source = module.generateMetadata ?? module.metadata;
+    const value = typeof source === 'function' ? await source(props) : source;
+    if (!value) continue;
+
+    const { title, ...rest } = value;
+    metadata = { ...metadata, ...rest };
+
+    if (typeof title === 'string') {
+      metadata.title = template ? template.replace('%s', title) : title;
+    } else if (title) {
+      const resolved = title.absolute ?? title.default;
+      if (resolved !== undefined) metadata.title = resolved;
+      if (title.template) template = title.template;
+    }
   }
 
-  const cases = routes.map((route, i) => {
-    const handlerName = bundles[i].componentName
+  return metadata;
+}
 
-    if (route.params) {
-      const pattern = route.routePath.split('/').map(seg =>
-        seg.startsWith(':') ? '([^/]+)' : seg
-      ).join('\\/')
+// Helper: Head elements for resolved metadata
+// Marked with data-addis-head, so the dev server can render them into the
+// HTML shell and the client can replace that copy on hydration
+function metadataTags(metadata) {
+  const tags = [];
+  const meta = (attribute, name, content) => {
+    if (content === undefined || content === null || content === '') return;
+    tags.push(jsx('meta', { key: attribute + ':' + name + ':' + tags.length, [attribute]: name, content: String(content), 'data-addis-head': '' }));
+  };
 
-      return `    // ${route.routePath}
-    if (request.path.match(/^${pattern}$/)) {
-      const params = extractParams(request.path, "${route.routePath}");
-      return ${handlerName}({ ...request, params });
-    }`
-    } else {
-      return `    case '${route.routePath}':
-      return ${handlerName}(request);`
+  if (metadata.title) {
+    tags.push(jsx('title', { key: 'title', children: String(metadata.title), 'data-addis-head': '' }));
+  }
+  meta('name', 'description', metadata.description);
+  meta('name', 'keywords', [].concat(metadata.keywords ?? []).join(', '));
+  meta('name', 'robots', metadata.robots);
+  if (metadata.alternates?.canonical) {
+    tags.push(jsx('link', { key: 'canonical', rel: 'canonical', href: metadata.alternates.canonical, 'data-addis-head': '' }));
+  }
+
+  const openGraph = metadata.openGraph || {};
+  meta('property', 'og:title', openGraph.title);
+  meta('property', 'og:description', openGraph.description);
+  meta('property', 'og:url', openGraph.url);
+  meta('property', 'og:site_name', openGraph.siteName);
+  meta('property', 'og:type', openGraph.type);
+  meta('property', 'og:locale', openGraph.locale);
+  for (const image of [].concat(openGraph.images ?? [])) {
+    const { url, width, height, alt } = typeof image === 'string' ? { url: image } : image;
+    meta('property', 'og:image', url);
+    meta('property', 'og:image:width', width);
+    meta('property', 'og:image:height', height);
+    meta('property', 'og:image:alt', alt);
+  }
+
+  const twitter = metadata.twitter || {};
+  meta('name', 'twitter:card', twitter.card);
+  meta('name', 'twitter:site', twitter.site);
+  meta('name', 'twitter:creator', twitter.creator);
+  meta('name', 'twitter:title', twitter.title);
+  meta('name', 'twitter:description', twitter.description);
+  for (const image of [].concat(twitter.images ?? [])) {
+    meta('name', 'twitter:image', typeof image === 'string' ? image : image.url);
+  }
+
+  for (const [name, content] of Object.entries(metadata.other || {})) {
+    [].concat(content).forEach(item => meta('name', name, item));
+  }
+
+  return tags;
+}
+
+// Helper: Render metadata head elements alongside the page
+// React hoists title, meta and link elements into <head> on the client
+function withMetadata(content, metadata) {
+  const tags = metadataTags(metadata);
+  if (tags.length === 0) return content;
+  return jsx(Fragment, { children: [...tags, jsx(Fragment, { key: 'route', children: content })] });
+}`
+}
+
+/**
+ * Generate runtime helpers for the revalidate / dynamic / tags route exports
+ * (see lib/cache)
+ */
+function generateCacheHelpers(): string {
+  return `// Rendered pages by URL, for routes with a cache policy (oldest evicted first)
+const PAGE_CACHE = new Map();
+const PAGE_CACHE_LIMIT = 500;
+
+// Route exports that set a cache policy
+const CACHE_EXPORTS = ${JSON.stringify(CACHE_EXPORTS)};
+
+// Cache-Control of tagged responses - revalidateTag() only reaches this
+// instance's PAGE_CACHE, so shared caches must check back every time
+const TAGGED_CACHE_CONTROL = 'no-cache';
+
+// Helper: Cache policy of a route from the revalidate / dynamic / tags exports
+// of its modules (root layout → page), or null when none sets one. The
+// shortest revalidate wins and force-dynamic anywhere turns caching off.
+function routeCache(modules) {
+  const configs = modules.filter(module => CACHE_EXPORTS.some(name => module[name] !== undefined));
+  if (configs.length === 0) return null;
+
+  let revalidate;
+  let dynamic = 'auto';
+  const tags = [];
+
+  for (const config of configs) {
+    if (config.dynamic === 'force-dynamic' || (config.dynamic === 'force-static' && dynamic === 'auto')) {
+      dynamic = config.dynamic;
     }
-  }).join('\n\n')
+    if (typeof config.revalidate === 'number') {
+      revalidate = typeof revalidate === 'number' ? Math.min(revalidate, config.revalidate) : config.revalidate;
+    } else if (config.revalidate === false && revalidate === undefined) {
+      revalidate = false;
+    }
+    tags.push(...[].concat(config.tags ?? []));
+  }
 
-  return `export function ${method}(request) {
-  const { path, query, headers, body } = request;
+  if (dynamic === 'force-dynamic' || revalidate === 0) {
+    return { maxAge: 0, tags, cacheControl: 'no-store' };
+  }
+  if (typeof revalidate === 'number') {
+    const cacheControl = tags.length > 0 ? TAGGED_CACHE_CONTROL
+      : 'public, max-age=0, s-maxage=' + revalidate + ', stale-while-revalidate';
+    return { maxAge: revalidate, tags, cacheControl };
+  }
+  if (dynamic === 'force-static' || revalidate === false) {
+    const cacheControl = tags.length > 0 ? TAGGED_CACHE_CONTROL : 'public, max-age=0, s-maxage=31536000, must-revalidate';
+    return { maxAge: Infinity, tags, cacheControl };
+  }
+  // Tags only - responses are tagged, but nothing is cached
+  return { maxAge: 0, tags, cacheControl: null };
+}
 
-  // Route matching
-  switch (path) {
-${cases}
+// Helper: Render a page once per URL while its cache policy allows
+// An entry is stale after revalidate seconds, or once revalidateTag() bumps
+// one of the route's tags
+async function cachedRender(cache, key, render) {
+  if (!cache || cache.maxAge === 0) return await render();
+
+  const version = tagVersion(cache.tags);
+  const entry = PAGE_CACHE.get(key);
+  if (entry && entry.version === version && entry.expires > Date.now()) return entry.element;
+
+  const element = await render();
+  PAGE_CACHE.delete(key);
+  if (PAGE_CACHE.size >= PAGE_CACHE_LIMIT) PAGE_CACHE.delete(PAGE_CACHE.keys().next().value);
+  PAGE_CACHE.set(key, { element, version, expires: Date.now() + cache.maxAge * 1000 });
+  return element;
+}
+
+// Helper: Apply an API route's cache policy to a handler response
+// Adds Cache-Control (unless the handler set one) and Cache-Tag, plus an ETag
+// for cacheable GET / HEAD responses - a matching If-None-Match answers 304
+function withCache(response, cache, request, conditional) {
+  if (!response || typeof response !== 'object') return response;
+
+  const headers = { ...response.headers };
+  const tags = [...(cache?.tags ?? []), ...(headers[CACHE_TAG_HEADER] ? headers[CACHE_TAG_HEADER].split(',') : [])];
+  if (cache?.cacheControl && !Object.keys(headers).some(name => name.toLowerCase() === 'cache-control')) {
+    // Tagged by cacheTag() - shared caches can't be told about revalidateTag()
+    headers['Cache-Control'] = tags.length > 0 && cache.cacheControl !== 'no-store' ? TAGGED_CACHE_CONTROL : cache.cacheControl;
+  }
+  if (tags.length > 0) headers[CACHE_TAG_HEADER] = [...new Set(tags)].join(',');
+
+  const cacheable = conditional && (response.status ?? 200) === 200 && (cache || tags.length > 0) &&
+    cache?.cacheControl !== 'no-store';
+  if (!cacheable) return { ...response, headers };
+
+  const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? null);
+  headers['ETag'] = 'W/"' + hashString(body) + '"';
+
+  const ifNoneMatch = request.headers?.['if-none-match'] ?? request.headers?.['If-None-Match'];
+  if (ifNoneMatch && ifNoneMatch.split(',').some(etag => etag.trim() === headers['ETag'] || etag.trim() === '*')) {
+    return { status: 304, body: '', headers };
+  }
+  return { ...response, headers };
+}
 
-    default:
-      return {
-        status: 404,
-        body: { error: 'Not found' },
-        headers: { 'Content-Type': 'application/json' }
-      };
+// Helper: FNV-1a hash of a string plus its length, as hex
+function hashString(value) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return (hash >>> 0).toString(16) + '-' + value.length.toString(16);
 }`
 }
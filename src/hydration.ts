@@ -1,7 +1,7 @@
 // Addis RSC Hydration Module Generator
 // Generates client-side code for Flight protocol parsing and React hydration
 
-import type { ProjectStructure } from './generator.js'
+import type { ProjectStructure } from './types.js'
 
 /**
  * Generate a virtual module for RSC client-side Flight parsing and hydration
@@ -158,11 +158,26 @@ function render() {
   if (!rootEl) return;
 
   if (!reactRoot) {
+    replaceServerHead();
     reactRoot = createRoot(rootEl);
   }
   reactRoot.render(flightToReact(rowCache.get(0)));
 }
 
+// Metadata head elements in the HTML shell are a server-rendered copy - React
+// hoists its own into <head>, so drop the copy (and the default title, if the
+// page has one) before the first render
+function replaceServerHead() {
+  const hasTitle = [...rowCache.values()].some(function findTitle(value) {
+    if (!value || typeof value !== 'object') return false;
+    if (Array.isArray(value) && value[0] === FLIGHT_ELEMENT && value[1] === 'title') return true;
+    return Object.values(value).some(findTitle);
+  });
+
+  document.head.querySelectorAll('[data-addis-head]').forEach(el => el.remove());
+  if (hasTitle) document.head.querySelectorAll('title[data-addis-default]').forEach(el => el.remove());
+}
+
 function processFlightData(flightJson) {
   // Parse Flight rows from embedded data
   const lines = flightJson.split('\\n');
@@ -231,8 +246,9 @@ async function loadPage() {
   }
 
   // Fallback: Fetch Flight stream from current URL (CSR mode)
-  const pathname = window.location.pathname;
-  const response = await fetch(pathname, {
+  // The query string is part of the page - Page() passes it as searchParams
+  const { pathname, search } = window.location;
+  const response = await fetch(pathname + search, {
     headers: { 'Accept': 'text/x-component' }
   });
 
@@ -432,16 +448,50 @@ function render() {
   if (!rootEl) return;
 
   if (!reactRoot) {
+    replaceServerHead();
     reactRoot = createRoot(rootEl);
   }
   reactRoot.render(flightToReact(rowCache.get(0)));
 }
 
+// Metadata head elements in the HTML shell are a server-rendered copy - React
+// hoists its own into <head>, so drop the copy (and the default title, if the
+// page has one) before the first render
+function replaceServerHead() {
+  const hasTitle = [...rowCache.values()].some(function findTitle(value: any): boolean {
+    if (!value || typeof value !== 'object') return false;
+    if (Array.isArray(value) && value[0] === FLIGHT_ELEMENT && value[1] === 'title') return true;
+    return Object.values(value).some(findTitle);
+  });
+
+  document.head.querySelectorAll('[data-addis-head]').forEach(el => el.remove());
+  if (hasTitle) document.head.querySelectorAll('title[data-addis-default]').forEach(el => el.remove());
+}
+
+// Render Flight rows embedded in the HTML shell (prerendered pages)
+function processFlightData(flightJson: string) {
+  for (const line of flightJson.split('\\n')) {
+    if (line.trim()) {
+      const row = parseFlightRow(line);
+      if (row) rowCache.set(row.id, row.value);
+    }
+  }
+  render();
+}
+
 async function loadPage() {
-  const pathname = window.location.pathname;
+  // A prerendered page embeds its Flight data - no need to fetch it
+  const embeddedData = document.getElementById('__FLIGHT_DATA__');
+  if (embeddedData) {
+    processFlightData(embeddedData.textContent || '');
+    return;
+  }
+
+  const { pathname, search } = window.location;
 
-  // Fetch Flight stream from RSC endpoint
-  const response = await fetch(pathname, {
+  // Fetch Flight stream from RSC endpoint (with the query string - Page()
+  // passes it as searchParams)
+  const response = await fetch(pathname + search, {
     headers: { 'Accept': 'text/x-component' }
   });
 
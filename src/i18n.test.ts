@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { assertI18nConfig, localizeUrl, preferredLocale, splitLocale } from './i18n.js'
+import type { I18nConfig } from './types.js'
+
+const i18n: I18nConfig = { locales: ['en', 'fr', 'pt-BR'], defaultLocale: 'en' }
+
+describe('splitLocale', () => {
+  it('splits a locale prefix off the URL', () => {
+    expect(splitLocale('/fr/about?tab=1', i18n)).toEqual({ locale: 'fr', url: '/about?tab=1', prefixed: true })
+    expect(splitLocale('/pt-br', i18n)).toEqual({ locale: 'pt-BR', url: '/', prefixed: true })
+  })
+
+  it('gives unprefixed URLs the default locale', () => {
+    expect(splitLocale('/france', i18n)).toEqual({ locale: 'en', url: '/france', prefixed: false })
+  })
+})
+
+describe('localizeUrl', () => {
+  it('prefixes URLs of other locales only', () => {
+    expect(localizeUrl('/about', 'fr', i18n)).toBe('/fr/about')
+    expect(localizeUrl('/?q=1', 'fr', i18n)).toBe('/fr?q=1')
+    expect(localizeUrl('/about', 'en', i18n)).toBe('/about')
+    expect(localizeUrl('/fr/about', 'pt-BR', i18n)).toBe('/fr/about')
+    expect(localizeUrl('https://example.com/', 'fr', i18n)).toBe('https://example.com/')
+  })
+})
+
+describe('preferredLocale', () => {
+  it('prefers the locale cookie over Accept-Language', () => {
+    expect(preferredLocale(i18n, { cookie: 'theme=dark; ADDIS_LOCALE=fr', acceptLanguage: 'pt-BR' })).toBe('fr')
+  })
+
+  it('matches Accept-Language by quality, then by language', () => {
+    expect(preferredLocale(i18n, { acceptLanguage: 'de;q=0.9, pt-PT;q=0.8, fr;q=0.5' })).toBe('pt-BR')
+  })
+
+  it('falls back to Accept-Language, then the default, when the cookie is malformed', () => {
+    expect(preferredLocale(i18n, { cookie: 'ADDIS_LOCALE=%E0%A4%A', acceptLanguage: 'fr' })).toBe('fr')
+    expect(preferredLocale(i18n, { cookie: 'ADDIS_LOCALE=%E0%A4%A' })).toBe('en')
+  })
+})
+
+describe('assertI18nConfig', () => {
+  it('requires the default locale to be a locale', () => {
+    expect(() => assertI18nConfig({ locales: ['fr'], defaultLocale: 'en' })).toThrow(/must be one of/)
+  })
+
+  it('requires locales to be single URL segments', () => {
+    expect(() => assertI18nConfig({ locales: ['en', 'fr/ca'], defaultLocale: 'en' })).toThrow(/single URL segment/)
+  })
+})
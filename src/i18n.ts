@@ -0,0 +1,225 @@
+// Addis Internationalized Routing
+// Locale prefixes (/fr/about), the preferred locale of a visitor and the
+// virtual:addis-i18n client module. contract.js applies the same rules (see
+// generateLocaleRouting in generator.ts); the dev server redirects / itself.
+
+import { normalizeBasePath } from './rules.js'
+import { VIRTUAL_I18N_ID } from './types.js'
+import type { I18nConfig } from './types.js'
+
+/** Cookie read for the visitor's chosen locale, unless i18n.localeCookie names another */
+export const DEFAULT_LOCALE_COOKIE = 'ADDIS_LOCALE'
+
+/**
+ * Fail the build on an i18n option routing can't honour
+ */
+export function assertI18nConfig(i18n: I18nConfig): void {
+  if (!i18n.locales.includes(i18n.defaultLocale)) {
+    throw new Error(`i18n.defaultLocale "${i18n.defaultLocale}" must be one of i18n.locales (${i18n.locales.join(', ')})`)
+  }
+
+  const invalid = i18n.locales.find(locale => !/^[A-Za-z0-9-]+$/.test(locale))
+  if (invalid !== undefined) {
+    throw new Error(`i18n locale "${invalid}" must be a single URL segment of letters, digits and dashes`)
+  }
+}
+
+/**
+ * Split the locale prefix off a URL (relative to the base path)
+ * e.g. '/fr/about' → { locale: 'fr', url: '/about', prefixed: true }
+ * Unprefixed URLs belong to the default locale
+ */
+export function splitLocale(url: string, i18n: I18nConfig): { locale: string; url: string; prefixed: boolean } {
+  const segment = url.split(/[/?#]/)[1] ?? ''
+  const locale = i18n.locales.find(candidate => candidate.toLowerCase() === segment.toLowerCase())
+  if (!segment || !locale) return { locale: i18n.defaultLocale, url, prefixed: false }
+
+  const rest = url.slice(segment.length + 1)
+  return { locale, url: rest.startsWith('/') ? rest : `/${rest}`, prefixed: true }
+}
+
+/**
+ * Prefix an app-relative URL with a locale - default locale URLs stay
+ * unprefixed, and absolute or already prefixed URLs are left alone
+ */
+export function localizeUrl(url: string, locale: string, i18n: I18nConfig): string {
+  if (locale === i18n.defaultLocale || !url.startsWith('/') || url.startsWith('//')) return url
+  if (splitLocale(url, i18n).prefixed) return url
+  return /^\/([?#]|$)/.test(url) ? `/${locale}${url.slice(1)}` : `/${locale}${url}`
+}
+
+/**
+ * Locale to send a visitor of / to: the locale cookie, then the best
+ * Accept-Language match (exact tag first, then language), then the default
+ */
+export function preferredLocale(
+  i18n: I18nConfig,
+  headers: { cookie?: string; acceptLanguage?: string }
+): string {
+  const cookieName = i18n.localeCookie ?? DEFAULT_LOCALE_COOKIE
+  const cookie = (headers.cookie ?? '').split(';')
+    .map(pair => pair.trim().split('='))
+    .find(([name]) => name === cookieName)
+  const fromCookie = cookie && matchLocale(decodeCookieValue(cookie.slice(1).join('=')), i18n)
+  if (fromCookie) return fromCookie
+
+  for (const tag of acceptedLanguages(headers.acceptLanguage ?? '')) {
+    const locale = matchLocale(tag, i18n)
+    if (locale) return locale
+  }
+
+  return i18n.defaultLocale
+}
+
+/**
+ * Decode a cookie value - a malformed one ('%E0%A4%A') is used as is, and
+ * matches no locale
+ */
+function decodeCookieValue(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Supported locale for a language tag - 'fr-CA' falls back to 'fr' (or 'fr-FR')
+ */
+function matchLocale(tag: string, i18n: I18nConfig): string | undefined {
+  const lower = tag.toLowerCase()
+  const language = lower.split('-')[0]
+  return i18n.locales.find(locale => locale.toLowerCase() === lower)
+    ?? i18n.locales.find(locale => locale.toLowerCase().split('-')[0] === language)
+}
+
+/**
+ * Language tags of an Accept-Language header, most preferred first
+ */
+function acceptedLanguages(header: string): string[] {
+  return header.split(',')
+    .map(part => {
+      const [tag, ...parameters] = part.trim().split(';')
+      const quality = parameters.map(parameter => parameter.trim()).find(parameter => parameter.startsWith('q='))
+      return { tag: tag.trim(), q: quality ? Number(quality.slice(2)) : 1 }
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ tag }) => tag)
+}
+
+/**
+ * Generate the virtual:addis-i18n module
+ *
+ *   import { getLocale, localizeHref, switchLocale } from 'virtual:addis-i18n'
+ *   <a href={localizeHref('/about')}>About</a>          // '/fr/about' on a French page
+ *   <a href={localizeHref('/about', 'de')}>Über</a>     // '/de/about'
+ *   <button onClick={() => switchLocale('en')}>English</button>
+ *
+ * hrefs include the base path. Without the i18n option every page is the
+ * default locale and localizeHref() only adds the base path.
+ */
+export function generateI18nClientModule(options: { i18n?: I18nConfig; basePath?: string } = {}): string {
+  const { i18n } = options
+
+  return `// Addis i18n (auto-generated)
+// Typed by .addis/i18n.d.ts - locales come from the i18n plugin option
+
+const BASE_PATH = ${JSON.stringify(normalizeBasePath(options.basePath))};
+const LOCALE_COOKIE = ${JSON.stringify(i18n?.localeCookie ?? DEFAULT_LOCALE_COOKIE)};
+
+export const locales = ${JSON.stringify(i18n?.locales ?? [])};
+export const defaultLocale = ${JSON.stringify(i18n?.defaultLocale ?? null)};
+
+// Split the locale prefix off an app path → { locale, path }
+function splitLocale(path) {
+  const segment = path.split(/[/?#]/)[1] || '';
+  const locale = segment && locales.find(candidate => candidate.toLowerCase() === segment.toLowerCase());
+  if (!locale) return { locale: defaultLocale, path };
+  const rest = path.slice(segment.length + 1);
+  return { locale, path: rest.startsWith('/') ? rest : '/' + rest };
+}
+
+// Path of the current page, relative to the base path
+function currentPath() {
+  const { pathname, search, hash } = window.location;
+  const path = BASE_PATH && pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) || '/' : pathname;
+  return path + search + hash;
+}
+
+// Locale of the current page, from its URL prefix
+export function getLocale() {
+  if (typeof window === 'undefined') return defaultLocale;
+  return splitLocale(currentPath()).locale;
+}
+
+// href of an app path in a locale (default: the current page's), base path included
+export function localizeHref(path, locale = getLocale()) {
+  if (!path.startsWith('/') || path.startsWith('//')) return path;
+  const unprefixed = splitLocale(path).path;
+  const localized = locale && locale !== defaultLocale
+    ? '/' + locale + (/^\\/([?#]|$)/.test(unprefixed) ? unprefixed.slice(1) : unprefixed)
+    : unprefixed;
+  return BASE_PATH ? BASE_PATH + (/^\\/([?#]|$)/.test(localized) ? localized.slice(1) : localized) : localized;
+}
+
+// href of the current page in another locale - for language switchers
+export function switchLocaleHref(locale) {
+  return localizeHref(currentPath(), locale);
+}
+
+// Remember a locale (so / no longer redirects by Accept-Language) and go to
+// the current page in it
+export function switchLocale(locale) {
+  document.cookie = LOCALE_COOKIE + '=' + encodeURIComponent(locale) + '; path=/; max-age=31536000; samesite=lax';
+  window.location.assign(switchLocaleHref(locale));
+}
+`
+}
+
+/**
+ * Generate .addis/i18n.d.ts for the virtual:addis-i18n module
+ */
+export function generateI18nClientTypes(i18n?: I18nConfig): string {
+  const locales = i18n ? i18n.locales.map(locale => `'${locale}'`).join(' | ') : 'never'
+
+  return `// i18n client types for this project (generated by vite-plugin-addis on every scan - do not edit)
+// Add ".addis/*.d.ts" to "include" in tsconfig.json to use them
+
+declare module '${VIRTUAL_I18N_ID}' {
+  /** Locales from the i18n plugin option */
+  export type Locale = ${locales}
+
+  export const locales: Locale[]
+  export const defaultLocale: ${i18n ? 'Locale' : 'null'}
+
+  /** Locale of the current page, from its URL prefix */
+  export function getLocale(): ${i18n ? 'Locale' : 'null'}
+
+  /** href of an app path ('/about') in a locale (default: the current page's), base path included */
+  export function localizeHref(path: string, locale?: Locale): string
+
+  /** href of the current page in another locale */
+  export function switchLocaleHref(locale: Locale): string
+
+  /** Remember a locale in the locale cookie and navigate to the current page in it */
+  export function switchLocale(locale: Locale): void
+}
+`
+}
+
+/**
+ * esbuild plugin serving virtual:addis-i18n to production client bundles
+ */
+export function createI18nClientPlugin(options: { i18n?: I18nConfig; basePath?: string } = {}) {
+  return {
+    name: 'addis-i18n-client',
+    setup(build: any) {
+      build.onResolve({ filter: /^virtual:addis-i18n$/ }, () => ({ path: VIRTUAL_I18N_ID, namespace: 'addis-i18n' }))
+      build.onLoad({ filter: /.*/, namespace: 'addis-i18n' }, () => ({
+        contents: generateI18nClientModule(options),
+        loader: 'js',
+      }))
+    },
+  }
+}
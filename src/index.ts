@@ -3,25 +3,65 @@
 
 import type { Plugin, ViteDevServer } from 'vite'
 import { spawn, ChildProcess } from 'child_process'
-import { request as httpRequest } from 'http'
+import type { Readable } from 'stream'
+import { request as httpRequest, IncomingHttpHeaders } from 'http'
 import path from 'path'
 import fs from 'fs'
 
 // Internal modules
-import type { AddisPluginOptions } from './types.js'
-import { VIRTUAL_HYDRATE_ID, RESOLVED_VIRTUAL_HYDRATE_ID } from './types.js'
+import type { AddisPluginOptions, ContractOptions, ProjectStructure } from './types.js'
+import { VIRTUAL_HYDRATE_ID, RESOLVED_VIRTUAL_HYDRATE_ID, VIRTUAL_API_ID, RESOLVED_VIRTUAL_API_ID, VIRTUAL_I18N_ID, RESOLVED_VIRTUAL_I18N_ID } from './types.js'
 import { detectStylesheet, findTanaEdgeBinary, findClientEntry } from './utils.js'
-import { scanRoutes } from './routes.js'
+import { scanProject, createRouteManifest, API_HANDLERS, API_METHODS } from './routes.js'
+import { findRedirect, findHeaders, normalizeBasePath, stripBasePath, withBasePath, canonicalUrl } from './rules.js'
 import { printAddisBanner } from './banner.js'
 import { generateHydrationModule, generateClientEntryCode } from './hydration.js'
+import { renderHeadTags } from './metadata.js'
+import { generateRouteTypes } from './route-types.js'
+import { generateApiClientModule, generateApiClientTypes } from './api-client.js'
+import { generateOpenApiDocument, generateOpenApiPage, OPENAPI_JSON_URL, OPENAPI_PAGE_URL } from './openapi.js'
+import { generateRobots, generateSitemap, ROBOTS_URL, SITEMAP_URL } from './sitemap.js'
+import { generateI18nClientModule, generateI18nClientTypes, localizeUrl, preferredLocale, splitLocale } from './i18n.js'
+import { createSourceMapper, hasContractLocation, mapStackTrace } from './source-map.js'
+import { boundaryErrorMessage, isForbiddenImport, CLIENT_ONLY_MODULE } from './boundaries.js'
+import { edgeRequestHeaders, HOP_BY_HOP_HEADERS } from './proxy.js'
+import type { OriginalPosition } from './source-map.js'
 import { out } from '@tananetwork/stdio'
 
 // External modules
 import { tanaBuild } from './build.js'
-import { scanProject, generateContract, ProjectStructure } from './generator.js'
+import { generateContract, createContractCache } from './generator.js'
 
 // Re-export types for consumers
-export type { AddisPluginOptions } from './types.js'
+export type { AddisPluginOptions, RedirectRule, RewriteRule, HeaderRule, I18nConfig, RouteModuleStats } from './types.js'
+
+/** Response proxied back from tana-edge */
+interface EdgeResponse {
+  statusCode: number
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+/** client-only marker in browser modules - an empty module */
+const RESOLVED_CLIENT_ONLY_ID = '\0' + CLIENT_ONLY_MODULE
+
+/** Quiet period after a change before the contract is rebuilt */
+const REBUILD_DEBOUNCE_MS = 100
+
+/**
+ * Whether a dev server URL (base path stripped) is Vite's own (client, HMR,
+ * /@fs, node_modules, source modules) or a static asset - page middleware
+ * leaves these to Vite
+ */
+function isViteRequest(url: string): boolean {
+  return (
+    url.startsWith('/@') ||
+    url.startsWith('/__') ||
+    url.startsWith('/node_modules') ||
+    url.startsWith('/src/') ||
+    url.split('?')[0].includes('.')
+  )
+}
 
 /**
  * Vite plugin for Addis framework
@@ -42,8 +82,21 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
     database,
     dev = true,
     stylesheet,
+    ignoreDirs,
+    redirects = [],
+    rewrites = [],
+    headers: headerRules = [],
+    trailingSlash,
+    i18n,
+    siteUrl,
+    prerender = false,
   } = options
 
+  const basePath = normalizeBasePath(options.basePath)
+
+  // Routing options compiled into contract.js (dev and production builds)
+  const contractOptions: ContractOptions = { redirects, rewrites, headers: headerRules, basePath, trailingSlash, i18n }
+
   // Will be resolved in configResolved hook
   let resolvedEdgeBinary: string
   let resolvedStylesheet: string | null = null
@@ -57,6 +110,17 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
   let outDir: string
   let resolvedContractsDir: string
   let projectStructure: ProjectStructure | null = null
+  // esbuild contexts and compiled runtime modules reused by contract rebuilds
+  const contractCache = createContractCache()
+  // Source files bundled into the last contract - changes to them trigger a rebuild
+  let contractFiles = new Set<string>()
+  // Rebuild scheduling: changes are debounced, and rebuilds never overlap
+  let rebuildTimer: ReturnType<typeof setTimeout> | null = null
+  let contractBuild: Promise<void> | null = null
+  let rebuildQueued = false
+
+  // contract.js positions → app/ and api/ files, from the last contract.js.map
+  let sourceMapper: ((line: number, column: number) => OriginalPosition | null) | null = null
 
   // Track if tana-edge is ready
   let edgeReady = false
@@ -72,6 +136,79 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
 
   resetEdgeReady()
 
+  /**
+   * Summarize a scanned project for the build log
+   * e.g. "3 page(s), 2 GET, 1 POST, 1 DELETE handler(s)"
+   */
+  function describeStructure(structure: ProjectStructure): string {
+    const handlers = API_METHODS
+      .filter(method => structure[API_HANDLERS[method]].length > 0)
+      .map(method => `${structure[API_HANDLERS[method]].length} ${method.toUpperCase()}`)
+
+    return handlers.length > 0
+      ? `${structure.pages.length} page(s), ${handlers.join(', ')} handler(s)`
+      : `${structure.pages.length} page(s), no API handlers`
+  }
+
+  /**
+   * Write .addis/manifest.json, routes.d.ts, api.d.ts and i18n.d.ts from the scanned project structure
+   * Uses the same route model as the contract, so they never disagree
+   */
+  function writeRouteManifest(structure: ProjectStructure) {
+    if (!fs.existsSync(outDir)) {
+      fs.mkdirSync(outDir, { recursive: true })
+    }
+
+    fs.writeFileSync(
+      path.join(outDir, 'manifest.json'),
+      JSON.stringify(createRouteManifest(structure), null, 2)
+    )
+    fs.writeFileSync(path.join(outDir, 'routes.d.ts'), generateRouteTypes(structure, { i18n }))
+    fs.writeFileSync(path.join(outDir, 'api.d.ts'), generateApiClientTypes(structure, outDir))
+    fs.writeFileSync(path.join(outDir, 'i18n.d.ts'), generateI18nClientTypes(i18n))
+  }
+
+  /**
+   * Read contract.js.map for mapping tana-edge stack traces
+   */
+  function loadSourceMap(sourceMapPath: string | null) {
+    sourceMapper = sourceMapPath
+      ? createSourceMapper(JSON.parse(fs.readFileSync(sourceMapPath, 'utf-8')), path.dirname(sourceMapPath))
+      : null
+  }
+
+  /**
+   * Forward tana-edge output to the terminal - output with contract.js stack
+   * frames is printed through out.error, its frames pointing at app/ and api/
+   * files instead
+   */
+  function forwardEdgeOutput(stream: Readable, target: NodeJS.WriteStream) {
+    // Whole lines only, so a frame split across chunks is still mapped
+    let partial = ''
+
+    const forward = (text: string) => {
+      if (!sourceMapper || !hasContractLocation(text)) {
+        target.write(text)
+        return
+      }
+
+      for (const line of mapStackTrace(text, sourceMapper, projectRoot).trimEnd().split('\n')) {
+        out.error('edge', line)
+      }
+    }
+
+    stream.on('data', (chunk: Buffer) => {
+      const text = partial + chunk.toString()
+      const end = text.lastIndexOf('\n') + 1
+      partial = text.slice(end)
+      if (end > 0) forward(text.slice(0, end))
+    })
+    stream.on('end', () => {
+      if (partial) forward(partial)
+      partial = ''
+    })
+  }
+
   /**
    * Build initial contract on dev server startup
    */
@@ -80,8 +217,9 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
       out.log('build', 'contract...')
 
       // Scan project structure and store it for the hydration module
-      projectStructure = await scanProject(projectRoot)
+      projectStructure = await scanProject(projectRoot, { ignoreDirs })
       const structure = projectStructure
+      writeRouteManifest(structure)
 
       // Generate unified contract for dev
       const devOutDir = path.join(resolvedContractsDir, contractId)
@@ -92,10 +230,12 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
       }
 
       // Generate the unified contract.js
-      await generateContract(structure, devOutDir)
+      const { sourceMapPath, files } = await generateContract(structure, devOutDir, contractOptions, contractCache)
+      loadSourceMap(sourceMapPath)
+      contractFiles = new Set(files)
 
       out.log('ready', 'contract built')
-      out.log('info', `${structure.pages.length} page(s), ${structure.apiGet.length} GET handler(s), ${structure.apiPost.length} POST handler(s)`)
+      out.log('info', describeStructure(structure))
     } catch (error) {
       out.error('build', `contract failed: ${error}`)
     }
@@ -167,12 +307,14 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
       env.DATABASE_URL = database
     }
 
-    // Use inherit for stdio - simpler and avoids pipe issues
+    // Pipe stdio so stack traces can be mapped back to source files
     tanaEdgeProcess = spawn(resolvedEdgeBinary, [], {
-      stdio: ['ignore', 'inherit', 'inherit'],
+      stdio: ['ignore', 'pipe', 'pipe'],
       env,
       cwd: resolvedContractsDir,
     })
+    forwardEdgeOutput(tanaEdgeProcess.stdout!, process.stdout)
+    forwardEdgeOutput(tanaEdgeProcess.stderr!, process.stderr)
 
     tanaEdgeProcess.on('error', (error) => {
       out.error('edge', `failed to start: ${error}`)
@@ -200,16 +342,18 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
 
   /**
    * Proxy request to tana-edge's /_dev/ endpoint
+   * Resolves with the status, headers and body so API responses keep
+   * their status code and headers (Allow, Location, ...) in dev. The browser's
+   * request headers go along, minus hop-by-hop ones (see edgeRequestHeaders).
    */
-  async function proxyToEdge(url: string, method: string, body?: string): Promise<string> {
+  async function proxyToEdge(url: string, method: string, incomingHeaders: IncomingHttpHeaders, body?: string): Promise<EdgeResponse> {
     return new Promise((resolve, reject) => {
-      const ssrPath = `/_dev/${contractId}${url === '/' ? '/' : url}`
+      // Re-serialize so the full query string survives (searchParams are parsed
+      // from it) and characters Node refuses in request paths get escaped
+      const { pathname, search } = new URL(`http://localhost${url}`)
+      const ssrPath = `/_dev/${contractId}${pathname}${search}`
 
-      const headers: Record<string, string> = {}
-      if (body) {
-        headers['Content-Type'] = 'application/json'
-        headers['Content-Length'] = Buffer.byteLength(body).toString()
-      }
+      const headers = edgeRequestHeaders(incomingHeaders, body)
 
       const req = httpRequest(
         {
@@ -222,7 +366,11 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
         (res) => {
           let data = ''
           res.on('data', (chunk) => (data += chunk))
-          res.on('end', () => resolve(data))
+          res.on('end', () => resolve({
+            statusCode: res.statusCode || 200,
+            headers: res.headers,
+            body: data,
+          }))
         }
       )
 
@@ -241,7 +389,7 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
    * Inject Vite's HMR client scripts and stylesheet into HTML
    * If response is Flight JSON (not HTML), wrap it in an HTML shell first
    */
-  function injectViteClient(response: string): string {
+  function injectViteClient(response: string, lang = 'en'): string {
     const stylesheetLink = resolvedStylesheet
       ? `<link rel="stylesheet" href="${resolvedStylesheet}">`
       : ''
@@ -252,12 +400,17 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
     if (!isHtml) {
       // Flight JSON response - wrap in HTML shell
       // The Flight payload is embedded as a script that the hydration module will parse
+      // Metadata head elements are rendered into the shell, replacing the default title
+      const headTags = renderHeadTags(response)
+      const title = headTags.includes('<title') ? '' : '<title data-addis-default>Tana App</title>'
+
       return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${lang}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Tana App</title>
+  ${title}
+  ${headTags}
   ${stylesheetLink}
   <script type="module" src="/@vite/client"></script>
   <script type="module">
@@ -292,15 +445,64 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
     return response.replace('</head>', `${viteAssets}</head>`)
   }
 
+  /**
+   * Files importing a browser module, entry first - following the first
+   * importer of each module in Vite's module graph
+   */
+  function importChain(importer: string | undefined): string[] {
+    const chain: string[] = []
+    let file = importer
+    while (file && !chain.includes(file)) {
+      chain.unshift(file)
+      const [next] = viteServer?.moduleGraph.getModuleById(file)?.importers ?? []
+      file = next?.id ?? undefined
+    }
+    return chain.map(file => file.startsWith(projectRoot) ? path.relative(projectRoot, file) : file)
+  }
+
+  /**
+   * Rebuild the contract once changes settle (a save often touches several
+   * files), after any build already running
+   */
+  function scheduleRebuild() {
+    if (rebuildTimer) clearTimeout(rebuildTimer)
+    rebuildTimer = setTimeout(() => {
+      rebuildTimer = null
+      runContractBuild(rebuildUnifiedContract)
+    }, REBUILD_DEBOUNCE_MS)
+  }
+
+  /**
+   * Run a contract build, or queue one rebuild if a build is running - so two
+   * builds never write contract.js at once
+   */
+  function runContractBuild(task: () => Promise<void>): Promise<void> {
+    if (contractBuild) {
+      rebuildQueued = true
+      return contractBuild
+    }
+
+    contractBuild = task().finally(() => {
+      contractBuild = null
+      if (rebuildQueued) {
+        rebuildQueued = false
+        runContractBuild(rebuildUnifiedContract)
+      }
+    })
+    return contractBuild
+  }
+
   /**
    * Rebuild unified contract when files change (HMR)
+   * Only the route files that changed are re-parsed (see createContractCache)
    */
   async function rebuildUnifiedContract() {
     try {
       out.log('rebuild', 'contract...')
 
-      projectStructure = await scanProject(projectRoot)
+      projectStructure = await scanProject(projectRoot, { ignoreDirs })
       const structure = projectStructure
+      writeRouteManifest(structure)
 
       const devOutDir = path.join(resolvedContractsDir, contractId)
 
@@ -308,10 +510,12 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
         fs.mkdirSync(devOutDir, { recursive: true })
       }
 
-      await generateContract(structure, devOutDir)
+      const { sourceMapPath, files } = await generateContract(structure, devOutDir, contractOptions, contractCache)
+      loadSourceMap(sourceMapPath)
+      contractFiles = new Set(files)
 
       out.log('ready', 'contract rebuilt')
-      out.log('info', `${structure.pages.length} page(s), ${structure.apiGet.length} GET handler(s), ${structure.apiPost.length} POST handler(s)`)
+      out.log('info', describeStructure(structure))
     } catch (error) {
       out.error('rebuild', `contract failed: ${error}`)
     }
@@ -335,16 +539,39 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
       }
     },
 
-    resolveId(id) {
+    resolveId(id, importer) {
+      // Import boundaries of browser modules (see boundaries.ts)
+      if (id === CLIENT_ONLY_MODULE) {
+        return RESOLVED_CLIENT_ONLY_ID
+      }
+      if (isForbiddenImport(id, 'client')) {
+        this.error(boundaryErrorMessage(id, 'client', importChain(importer)))
+      }
+
       if (id === VIRTUAL_HYDRATE_ID) {
         return RESOLVED_VIRTUAL_HYDRATE_ID
       }
+      if (id === VIRTUAL_API_ID) {
+        return RESOLVED_VIRTUAL_API_ID
+      }
+      if (id === VIRTUAL_I18N_ID) {
+        return RESOLVED_VIRTUAL_I18N_ID
+      }
     },
 
     load(id) {
+      if (id === RESOLVED_CLIENT_ONLY_ID) {
+        return 'export {}'
+      }
       if (id === RESOLVED_VIRTUAL_HYDRATE_ID) {
         return generateHydrationModule(projectStructure, projectRoot)
       }
+      if (id === RESOLVED_VIRTUAL_API_ID) {
+        return generateApiClientModule({ basePath })
+      }
+      if (id === RESOLVED_VIRTUAL_I18N_ID) {
+        return generateI18nClientModule({ i18n, basePath })
+      }
     },
 
     configResolved(config) {
@@ -384,17 +611,10 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
     },
 
     async buildStart() {
-      if (!fs.existsSync(outDir)) {
-        fs.mkdirSync(outDir, { recursive: true })
-      }
+      projectStructure = await scanProject(projectRoot, { ignoreDirs })
+      writeRouteManifest(projectStructure)
 
-      const manifest = await scanRoutes(projectRoot)
-      fs.writeFileSync(
-        path.join(outDir, 'manifest.json'),
-        JSON.stringify(manifest, null, 2)
-      )
-
-      out.log('ready', 'route manifest generated')
+      out.log('ready', 'route manifest and types generated')
     },
 
     configureServer(server) {
@@ -402,7 +622,7 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
 
       if (dev) {
         ;(async () => {
-          await buildInitialContract()
+          await runContractBuild(buildInitialContract)
           startTanaEdge()
         })()
       }
@@ -413,13 +633,106 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
         const host = server.config.server.host
 
         setTimeout(() => {
-          printAddisBanner({ vitePort: port, edgePort, host })
+          const structure = projectStructure
+          const hasApiRoutes = !!structure && API_METHODS.some(method => structure[API_HANDLERS[method]].length > 0)
+          printAddisBanner({ vitePort: port, edgePort, host, basePath, hasApiRoutes })
         }, 100)
       })
 
+      // OpenAPI document for api/ and its browsable page
+      server.middlewares.use(async (req, res, next) => {
+        const pathname = req.url && stripBasePath(req.url.split('?')[0], basePath)
+        if (pathname !== OPENAPI_JSON_URL && pathname !== OPENAPI_PAGE_URL) {
+          return next()
+        }
+
+        try {
+          const structure = projectStructure ?? await scanProject(projectRoot, { ignoreDirs })
+          const document = await generateOpenApiDocument(structure, { title: contractId, basePath })
+
+          if (pathname === OPENAPI_JSON_URL) {
+            res.setHeader('Content-Type', 'application/json')
+            res.end(JSON.stringify(document, null, 2))
+          } else {
+            res.setHeader('Content-Type', 'text/html')
+            res.end(generateOpenApiPage(document))
+          }
+        } catch (error) {
+          out.error('openapi', `${error}`)
+          next(error)
+        }
+      })
+
+      // sitemap.xml and robots.txt (app/sitemap.ts, app/robots.ts or the defaults)
+      server.middlewares.use(async (req, res, next) => {
+        const pathname = req.url && stripBasePath(req.url.split('?')[0], basePath)
+        if (pathname !== SITEMAP_URL && pathname !== ROBOTS_URL) {
+          return next()
+        }
+
+        try {
+          const structure = projectStructure ?? await scanProject(projectRoot, { ignoreDirs })
+          const siteOptions = { siteUrl: siteUrl ?? `http://${req.headers.host}`, basePath, trailingSlash, i18n }
+
+          if (pathname === SITEMAP_URL) {
+            res.setHeader('Content-Type', 'application/xml')
+            res.end(await generateSitemap(structure, siteOptions))
+          } else {
+            res.setHeader('Content-Type', 'text/plain')
+            res.end(await generateRobots(structure, siteOptions))
+          }
+        } catch (error) {
+          out.error('sitemap', `${error}`)
+          next(error)
+        }
+      })
+
+      // Locale detection, redirect and header rules - answered here so dev
+      // responses carry the real status and headers (Page() can only render a
+      // meta refresh). Rules match URLs relative to basePath and the locale
+      // prefix; Vite's module, HMR and asset requests are left alone
+      server.middlewares.use((req, res, next) => {
+        const appUrl = req.url && stripBasePath(req.url, basePath)
+        if (!appUrl || isViteRequest(appUrl)) {
+          return next()
+        }
+
+        const { locale, url, prefixed } = i18n
+          ? splitLocale(appUrl, i18n)
+          : { locale: undefined, url: appUrl, prefixed: false }
+
+        // Visitors of / go to their preferred locale
+        if (i18n && i18n.localeDetection !== false && !prefixed && url.split('?')[0] === '/') {
+          const preferred = preferredLocale(i18n, {
+            cookie: req.headers.cookie,
+            acceptLanguage: req.headers['accept-language'],
+          })
+          if (preferred !== i18n.defaultLocale) {
+            res.statusCode = 307
+            res.setHeader('Location', withBasePath(localizeUrl(url, preferred, i18n), basePath))
+            res.end()
+            return
+          }
+        }
+
+        const redirectTo = findRedirect(redirects, url)
+        if (redirectTo) {
+          const destination = i18n && locale ? localizeUrl(redirectTo.url, locale, i18n) : redirectTo.url
+          res.statusCode = redirectTo.status
+          res.setHeader('Location', withBasePath(destination, basePath))
+          res.end()
+          return
+        }
+
+        for (const [name, value] of Object.entries(findHeaders(headerRules, url))) {
+          res.setHeader(name, value)
+        }
+        next()
+      })
+
       // API middleware
       server.middlewares.use(async (req, res, next) => {
-        if (!req.url || !req.url.startsWith('/api')) {
+        if (!req.url || !req.url.startsWith(`${basePath}/api`)) {
           return next()
         }
 
@@ -430,7 +743,7 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
 
         try {
           let body: string | undefined
-          if (req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH') {
+          if (req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH' || req.method === 'DELETE') {
             body = await new Promise<string>((resolve) => {
               let data = ''
               req.on('data', (chunk: Buffer) => {
@@ -442,10 +755,18 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
             })
           }
 
-          const response = await proxyToEdge(req.url, req.method || 'GET', body)
+          const response = await proxyToEdge(req.url, req.method || 'GET', req.headers, body)
 
-          res.setHeader('Content-Type', 'application/json')
-          res.end(response)
+          res.statusCode = response.statusCode
+          for (const [name, value] of Object.entries(response.headers)) {
+            if (value !== undefined && !HOP_BY_HOP_HEADERS.includes(name)) {
+              res.setHeader(name, value)
+            }
+          }
+          if (!res.hasHeader('Content-Type')) {
+            res.setHeader('Content-Type', 'application/json')
+          }
+          res.end(response.body)
         } catch (error) {
           out.error('api', `${error}`)
           res.setHeader('Content-Type', 'application/json')
@@ -456,25 +777,28 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
 
       // RSC page middleware
       server.middlewares.use(async (req, res, next) => {
-        if (
-          !req.url ||
-          req.url.startsWith('/@') ||
-          req.url.startsWith('/__') ||
-          req.url.startsWith('/node_modules') ||
-          req.url.startsWith('/src/') ||
-          req.url.includes('.')
-        ) {
+        const appUrl = req.url && stripBasePath(req.url, basePath)
+        if (!req.url || !appUrl || isViteRequest(appUrl)) {
           return next()
         }
 
+        // Canonical trailing slash - a real 308 here, a meta refresh from Page()
+        const canonical = canonicalUrl(req.url, trailingSlash)
+        if (canonical !== req.url) {
+          res.statusCode = 308
+          res.setHeader('Location', canonical)
+          res.end()
+          return
+        }
+
         if (!edgeReady) {
           out.log('wait', 'tana-edge to be ready...')
           await edgeReadyPromise
         }
 
         try {
-          const html = await proxyToEdge(req.url, req.method || 'GET')
-          const injectedHtml = injectViteClient(html)
+          const { body: html } = await proxyToEdge(req.url, req.method || 'GET', req.headers)
+          const injectedHtml = injectViteClient(html, i18n ? splitLocale(appUrl, i18n).locale : undefined)
 
           res.setHeader('Content-Type', 'text/html')
           res.end(injectedHtml)
@@ -495,9 +819,10 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
       const isApiFile = file.includes('/api/') && (file.endsWith('.tsx') || file.endsWith('.ts') || file.endsWith('.jsx') || file.endsWith('.js'))
       const isBlockchainFile = file.includes('/blockchain/') && (file.endsWith('.tsx') || file.endsWith('.ts'))
 
-      if (isAppFile || isApiFile || isBlockchainFile) {
+      // Route files, and anything else the contract bundles (lib/, components/, ...)
+      if (isAppFile || isApiFile || isBlockchainFile || contractFiles.has(path.resolve(file))) {
         out.log('change', path.relative(root, file))
-        rebuildUnifiedContract()
+        scheduleRebuild()
       }
 
       return undefined
@@ -508,6 +833,8 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
         tanaEdgeProcess.kill()
         tanaEdgeProcess = null
       }
+      if (rebuildTimer) clearTimeout(rebuildTimer)
+      await contractCache.dispose()
 
       const finalOutDir = contractsDir
         ? path.resolve(root, contractsDir)
@@ -519,7 +846,7 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
       if (!clientEntry) {
         out.log('info', 'no client entry found, generating auto-hydration entry...')
 
-        const structure = projectStructure || await scanProject(projectRoot)
+        const structure = projectStructure || await scanProject(projectRoot, { ignoreDirs })
 
         if (structure.pages.length === 0) {
           out.log('info', 'no pages found, skipping client bundle generation')
@@ -554,6 +881,10 @@ export default function addis(options: AddisPluginOptions = {}): Plugin {
           contractId,
           minify: true,
           publicPath: '/',
+          ignoreDirs,
+          prerender,
+          siteUrl,
+          ...contractOptions,
         })
 
         // Clean up Vite's redundant output
@@ -0,0 +1,58 @@
+// Addis Metadata Rendering
+// Turns the head elements Page() renders for metadata / generateMetadata()
+// into HTML, so the dev server's HTML shell carries them before hydration
+
+/** Marker prop on the head elements the generated router renders */
+export const HEAD_MARKER = 'data-addis-head'
+
+/** Elements the router renders for metadata */
+const HEAD_TAGS = new Set(['title', 'meta', 'link'])
+
+/**
+ * Render the metadata head elements of a Flight payload as HTML
+ * Flight elements are ["$", type, key, props] arrays, in any row
+ */
+export function renderHeadTags(flight: string): string {
+  const tags: string[] = []
+
+  const visit = (value: unknown): void => {
+    if (!value || typeof value !== 'object') return
+    if (Array.isArray(value)) {
+      const [marker, type, , props] = value
+      if (marker === '$' && typeof type === 'string' && HEAD_TAGS.has(type) && props?.[HEAD_MARKER] !== undefined) {
+        tags.push(renderTag(type, props))
+        return
+      }
+      value.forEach(visit)
+      return
+    }
+    Object.values(value).forEach(visit)
+  }
+
+  for (const line of flight.split('\n')) {
+    const colonIndex = line.indexOf(':')
+    if (colonIndex === -1) continue
+    try {
+      visit(JSON.parse(line.slice(colonIndex + 1)))
+    } catch {
+      // Not a JSON row (e.g. a hint or text chunk)
+    }
+  }
+
+  return tags.join('\n  ')
+}
+
+function renderTag(type: string, props: Record<string, unknown>): string {
+  const attributes = Object.entries(props)
+    .filter(([name, value]) => name !== 'children' && name !== 'key' && typeof value === 'string')
+    .map(([name, value]) => value === '' && name === HEAD_MARKER ? ` ${name}` : ` ${name}="${escapeHtml(value as string)}"`)
+    .join('')
+
+  return type === 'title'
+    ? `<title${attributes}>${escapeHtml(String(props.children ?? ''))}</title>`
+    : `<${type}${attributes}>`
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
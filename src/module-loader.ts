@@ -0,0 +1,71 @@
+// Addis Module Loader
+// Evaluates project files in Node at build time (API schemas, sitemaps,
+// generateStaticParams, prerendered contracts) with the runtime modules that
+// only exist on tana-edge stubbed out
+
+import { build } from 'esbuild'
+
+/** Stand-in for React modules - any property access or call returns itself */
+const STUB_MODULE = 'const stub = new Proxy(function () {}, { get: () => stub, apply: () => stub, construct: () => stub });\nmodule.exports = stub;'
+
+/**
+ * Stand-in for a tana/* runtime module - every named export is a function
+ * throwing when called, so code using the chain fails with a clear error
+ * instead of calling undefined. The names resolve through the prototype, which
+ * esbuild's CommonJS interop keeps for named and namespace imports.
+ */
+function runtimeStubModule(specifier: string): string {
+  return `const unavailable = name => function () {
+  throw new Error('tana runtime module not available during prerender: ' + ${JSON.stringify(specifier)} + ' (' + name + '() only runs on tana-edge)');
+};
+module.exports = Object.create(new Proxy({}, {
+  get: (target, name) => typeof name === 'symbol' || name === '__esModule' || name === 'then' ? undefined : unavailable(name),
+}));`
+}
+
+/**
+ * Bundle a file and import it
+ * React is replaced by a stub and tana/* runtime modules by functions that
+ * throw when called, so only code that doesn't render or touch the chain at
+ * import time gives meaningful results
+ */
+export async function importProjectModule(filePath: string, options: { banner?: string } = {}): Promise<any> {
+  const result = await bundleProjectModule(filePath, options)
+  const output = result.outputFiles.find(file => file.path.endsWith('.js')) ?? result.outputFiles[0]
+  const code = Buffer.from(output.text).toString('base64')
+  return import(`data:text/javascript;base64,${code}`)
+}
+
+/**
+ * Names a file exports (re-exports included), read from the bundle's metafile
+ * without evaluating it - so files are only imported when they export
+ * something worth loading
+ */
+export async function projectModuleExports(filePath: string): Promise<string[]> {
+  const { metafile } = await bundleProjectModule(filePath)
+  return Object.values(metafile.outputs).flatMap(output => output.exports)
+}
+
+function bundleProjectModule(filePath: string, options: { banner?: string } = {}) {
+  return build({
+    entryPoints: [filePath],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    write: false,
+    metafile: true,
+    jsx: 'automatic',
+    logLevel: 'silent',
+    ...(options.banner ? { banner: { js: options.banner } } : {}),
+    plugins: [{
+      name: 'tana-runtime-stub',
+      setup(build) {
+        build.onResolve({ filter: /^(tana\/|react$|react\/|react-dom$|react-dom\/)/ }, args => ({ path: args.path, namespace: 'tana-stub' }))
+        build.onLoad({ filter: /.*/, namespace: 'tana-stub' }, args => ({
+          contents: args.path.startsWith('tana/') ? runtimeStubModule(args.path) : STUB_MODULE,
+          loader: 'js',
+        }))
+      },
+    }],
+  })
+}
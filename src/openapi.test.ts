@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { scanProject } from './routes.js'
+import { generateOpenApiDocument, generateOpenApiPage } from './openapi.js'
+import { writeProject } from './test-utils.js'
+
+describe('generateOpenApiDocument', () => {
+  it('describes handlers with their path params and schema export', async () => {
+    const root = writeProject({
+      'api/posts/[id]/get.ts': `import { json } from 'tana/http'
+export const schema = { summary: 'Read a post', response: { type: 'object' } }
+export default function get() { return json({}) }`,
+    })
+
+    const document = await generateOpenApiDocument(await scanProject(root), { title: 'blog', basePath: '/docs' })
+    expect(document.servers).toEqual([{ url: '/docs/api' }])
+    expect(document.paths['/posts/{id}']).toMatchObject({
+      parameters: [{ name: 'id', in: 'path', required: true }],
+      get: {
+        operationId: 'getPostsId',
+        summary: 'Read a post',
+        responses: { '200': { content: { 'application/json': { schema: { type: 'object' } } } } },
+      },
+    })
+  })
+
+  it('finds a schema exported under another name or from another file', async () => {
+    const root = writeProject({
+      'api/schemas.ts': `export const schema = { summary: 'Shared' }`,
+      'api/a/get.ts': `const readA = { summary: 'Read A' }
+export { readA as schema }
+export default function get() {}`,
+      'api/b/get.ts': `export { schema } from '../schemas'
+export default function get() {}`,
+    })
+
+    const { paths } = await generateOpenApiDocument(await scanProject(root), { title: 'app' })
+    expect((paths['/a'].get as any).summary).toBe('Read A')
+    expect((paths['/b'].get as any).summary).toBe('Shared')
+  })
+
+  it('falls back to the leading doc comment without loading the handler', async () => {
+    const root = writeProject({
+      'api/get.ts': `/**
+ * Root API - GET Handler
+ */
+// const schema = {}
+throw new Error('loaded')
+export default function get() {}`,
+    })
+
+    const { paths } = await generateOpenApiDocument(await scanProject(root), { title: 'app' })
+    expect((paths['/'].get as any).summary).toBe('Root API - GET Handler')
+  })
+})
+
+describe('generateOpenApiPage', () => {
+  it('links the document relatively, so it works under a base path', () => {
+    const page = generateOpenApiPage({ openapi: '3.1.0', info: { title: 'app', version: '1.0.0' }, servers: [], paths: {} })
+    expect(page).toContain('<a href="openapi.json">')
+  })
+})
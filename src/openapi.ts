@@ -0,0 +1,193 @@
+// Addis OpenAPI Generator
+// Derives an OpenAPI 3.1 document from the api/ directory
+
+import * as fs from 'fs'
+import { importProjectModule, projectModuleExports } from './module-loader.js'
+import { API_HANDLERS, API_METHODS, isCatchAllSegment } from './routes.js'
+import { normalizeBasePath } from './rules.js'
+import type { ApiMethod, ProjectStructure, RouteFile } from './types.js'
+
+/** Dev server URLs for the document and its browsable page (under the base path) */
+export const OPENAPI_JSON_URL = '/__addis/openapi.json'
+export const OPENAPI_PAGE_URL = '/__addis/api'
+
+/**
+ * Optional `schema` export of an API handler, e.g.
+ *
+ *   export const schema = {
+ *     summary: 'Create a post',
+ *     body: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] },
+ *     response: PostSchema, // validators with toJSONSchema() work too
+ *   }
+ */
+interface HandlerSchema {
+  summary?: string
+  description?: string
+  body?: unknown
+  response?: unknown
+}
+
+type JsonSchema = Record<string, unknown>
+
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: { title: string; version: string }
+  servers: Array<{ url: string }>
+  paths: Record<string, Record<string, unknown>>
+}
+
+/**
+ * Generate the OpenAPI document for a scanned project
+ * Methods and path params come from the routes, schemas and summaries from each
+ * handler's `schema` export (falling back to its leading doc comment)
+ */
+export async function generateOpenApiDocument(
+  structure: ProjectStructure,
+  options: { title: string; version?: string; basePath?: string }
+): Promise<OpenApiDocument> {
+  const paths: OpenApiDocument['paths'] = {}
+
+  for (const method of API_METHODS) {
+    for (const route of structure[API_HANDLERS[method]]) {
+      const openApiPath = toOpenApiPath(route.routePath)
+      const pathItem = paths[openApiPath] ??= pathParameters(route)
+      pathItem[method] = await describeOperation(route, method)
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: options.title, version: options.version ?? '1.0.0' },
+    servers: [{ url: `${normalizeBasePath(options.basePath)}/api` }],
+    paths,
+  }
+}
+
+/**
+ * Generate a self-contained HTML page listing the operations of a document
+ * It links the document relatively, so both work under a base path
+ */
+export function generateOpenApiPage(document: OpenApiDocument): string {
+  const server = document.servers[0]?.url ?? ''
+
+  const operations = Object.entries(document.paths).flatMap(([apiPath, pathItem]) =>
+    API_METHODS.filter(method => pathItem[method]).map(method => {
+      const operation = pathItem[method] as Record<string, any>
+      const body = operation.requestBody?.content?.['application/json']?.schema
+      const response = operation.responses?.['200']?.content?.['application/json']?.schema
+
+      return `<details>
+  <summary><code class="method ${method}">${method.toUpperCase()}</code> <code>${escapeHtml(server + apiPath)}</code> ${escapeHtml(operation.summary ?? '')}</summary>
+  ${body ? `<h4>Request body</h4><pre>${escapeHtml(JSON.stringify(body, null, 2))}</pre>` : ''}
+  ${response ? `<h4>Response</h4><pre>${escapeHtml(JSON.stringify(response, null, 2))}</pre>` : ''}
+  ${!body && !response ? '<p>No schema exported</p>' : ''}
+</details>`
+    })
+  )
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(document.info.title)} API</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 960px; margin: 40px auto; padding: 0 20px; color: #222; }
+    details { border: 1px solid #ddd; border-radius: 6px; margin: 8px 0; padding: 8px 12px; }
+    summary { cursor: pointer; }
+    pre { background: #f6f6f6; padding: 12px; overflow-x: auto; }
+    .method { display: inline-block; min-width: 60px; font-weight: bold; }
+    .get { color: #0a7; } .post { color: #07c; } .put, .patch { color: #c70; } .delete { color: #c22; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(document.info.title)} API</h1>
+  <p><a href="${OPENAPI_JSON_URL.split('/').pop()}">openapi.json</a></p>
+  ${operations.length > 0 ? operations.join('\n  ') : '<p>No API handlers in api/</p>'}
+</body>
+</html>
+`
+}
+
+/**
+ * Describe one handler as an OpenAPI operation
+ */
+async function describeOperation(route: RouteFile, method: ApiMethod): Promise<Record<string, unknown>> {
+  const schema = await loadHandlerSchema(route.filePath)
+  const summary = schema.summary ?? leadingDocLine(route.filePath)
+  const response = schema.response !== undefined ? toJsonSchema(schema.response) : undefined
+
+  return {
+    operationId: `${method}${route.routePath.replace(/[^A-Za-z0-9]+(.)?/g, (_, c: string = '') => c.toUpperCase())}`,
+    ...(summary ? { summary } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.body !== undefined
+      ? { requestBody: { required: true, content: { 'application/json': { schema: toJsonSchema(schema.body) } } } }
+      : {}),
+    responses: {
+      '200': {
+        description: 'OK',
+        ...(response ? { content: { 'application/json': { schema: response } } } : {}),
+      },
+    },
+  }
+}
+
+/**
+ * Read a handler's `schema` export
+ * The handler is evaluated with tana/* runtime modules stubbed out (see
+ * module-loader), so only files that export a schema are loaded
+ */
+async function loadHandlerSchema(filePath: string): Promise<HandlerSchema> {
+  if (!(await projectModuleExports(filePath)).includes('schema')) {
+    return {}
+  }
+
+  const module = await importProjectModule(filePath)
+  return (module.schema as HandlerSchema | undefined) ?? {}
+}
+
+/**
+ * JSON Schema from a plain schema object or a validator exposing toJSONSchema()
+ */
+function toJsonSchema(value: unknown): JsonSchema {
+  const candidate = value as { toJSONSchema?: () => JsonSchema } | null
+  if (candidate && typeof candidate.toJSONSchema === 'function') {
+    return candidate.toJSONSchema()
+  }
+  return value as JsonSchema
+}
+
+/**
+ * Path parameters shared by every operation on a route
+ * Catch-alls become a single parameter holding the rest of the path
+ */
+function pathParameters(route: RouteFile): Record<string, unknown> {
+  const parameters = route.routePath.split('/').filter(segment => segment.startsWith(':')).map(segment => ({
+    name: isCatchAllSegment(segment) ? segment.slice(1, -1) : segment.slice(1),
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+    ...(isCatchAllSegment(segment) ? { description: 'Rest of the path (one or more segments, "/"-separated)' } : {}),
+  }))
+
+  return parameters.length > 0 ? { parameters } : {}
+}
+
+/**
+ * OpenAPI path template for a route pattern ('/posts/:id' → '/posts/{id}')
+ */
+function toOpenApiPath(routePath: string): string {
+  return routePath.replace(/:(\w+)[+*]?/g, '{$1}')
+}
+
+/**
+ * First line of a handler's leading doc comment, e.g. "Root API - GET Handler"
+ */
+function leadingDocLine(filePath: string): string | undefined {
+  const match = fs.readFileSync(filePath, 'utf-8').match(/^\s*\/\*\*\s*\n?\s*\*?\s*([^\n*][^\n]*)/)
+  return match?.[1].trim() || undefined
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
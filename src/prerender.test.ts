@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { scanProject } from './routes.js'
+import { generateContract } from './generator.js'
+import { prerenderContract } from './prerender.js'
+import type { PrerenderedPage, SkippedPage } from './prerender.js'
+
+const files: Record<string, string> = {
+  'app/layout.tsx': 'export default function Layout({ children }: any) { return <html><body>{children}</body></html> }',
+  'app/page.tsx': 'export default function Home() { return <h1>home</h1> }',
+  'app/unused/page.tsx': 'export default function Unused({ searchParams }: any) { return <p>unused</p> }',
+  'app/search/page.tsx': 'export default function Search({ searchParams }: any) { return <p>{searchParams.q}</p> }',
+  'app/missing/page.tsx': `import { notFound } from 'tana/navigation'
+export default function Missing() { notFound() }`,
+  'app/broken/page.tsx': `export default function Broken() { throw new Error('boom') }`,
+  'app/broken/error.tsx': 'export default function Failed() { return <p>failed</p> }',
+  'app/moved/page.tsx': `import { redirect } from 'tana/navigation'
+export default function Moved() { redirect('/') }`,
+  'app/visits/page.tsx': `import { get } from 'tana/kv'
+export default async function Visits() { return <p>{await get('visits')}</p> }`,
+  'app/tagged/page.tsx': `export const tags = ['posts']
+export const revalidate = 60
+export default function Tagged() { return <p>tagged</p> }`,
+  'app/fresh/page.tsx': `export const revalidate = 60
+export default function Fresh() { return <p>fresh</p> }`,
+  'app/admin/middleware.ts': 'export default function middleware() {}',
+  'app/admin/page.tsx': 'export default function Admin() { return <p>admin</p> }',
+  'app/posts/[id]/page.tsx': `export async function generateStaticParams() { return [{ id: '1' }, { id: '2' }] }
+export default function Post({ params }: any) { return <p>post {params.id}</p> }`,
+}
+
+let root: string
+let pages: PrerenderedPage[]
+let skipped: SkippedPage[]
+
+beforeAll(async () => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'addis-prerender-'))
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    fs.writeFileSync(path.join(root, file), content)
+  }
+
+  const outDir = path.join(root, 'out')
+  fs.mkdirSync(outDir)
+  const { contractPath } = await generateContract(await scanProject(root), outDir)
+  ;({ pages, skipped } = await prerenderContract(contractPath))
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('prerenderContract', () => {
+  it('prerenders static pages, and dynamic pages for their generateStaticParams()', () => {
+    expect(pages.map(page => page.url).sort()).toEqual(['/', '/fresh', '/posts/1', '/posts/2', '/unused'])
+    expect(pages.find(page => page.url === '/posts/2')!.content).toBe('<p>post 2</p>')
+  })
+
+  it('keeps the cache policy of the route', () => {
+    expect(pages.find(page => page.url === '/fresh')!.cacheControl).toBe('public, max-age=0, s-maxage=60, stale-while-revalidate')
+  })
+
+  it('skips renders that do not answer 200, with their status', () => {
+    expect(skipped).toContainEqual({ url: '/missing', pattern: '/missing', status: 404, reason: 'not found' })
+    expect(skipped).toContainEqual({ url: '/broken', pattern: '/broken', status: 500, reason: 'error boundary' })
+    expect(skipped).toContainEqual({ url: '/moved', pattern: '/moved', status: 307, reason: 'redirect' })
+  })
+
+  it('skips pages whose render throws, like calls into tana/* runtime modules', () => {
+    expect(skipped).toContainEqual({
+      url: '/visits',
+      pattern: '/visits',
+      status: 500,
+      reason: 'render failed: tana runtime module not available during prerender: tana/kv (get() only runs on tana-edge)',
+    })
+  })
+
+  it('skips pages that read searchParams', () => {
+    expect(skipped).toContainEqual({ url: '/search', pattern: '/search', status: 200, reason: 'reads searchParams' })
+  })
+
+  it('never renders pages behind middleware or with cache tags', () => {
+    const urls = [...pages, ...skipped].map(page => page.url)
+    expect(urls).not.toContain('/admin')
+    expect(urls).not.toContain('/tagged')
+  })
+})
@@ -0,0 +1,267 @@
+// Addis Static Prerendering
+// Renders the static routes of a built contract (and dynamic routes that
+// export generateStaticParams) to HTML and Flight payload files, which
+// tana-edge serves before calling Page()
+
+import { importProjectModule } from './module-loader.js'
+import { canonicalUrl, routeUrl, withBasePath } from './rules.js'
+import { HEAD_MARKER, renderHeadTags } from './metadata.js'
+import { localizeUrl } from './i18n.js'
+import type { I18nConfig, TrailingSlash } from './types.js'
+
+/** Directory (inside the contract directory) holding prerendered pages */
+export const PRERENDER_DIR = 'prerender'
+
+/**
+ * Manifest tana-edge reads to serve prerendered pages
+ * html answers document requests, flight answers RSC (text/x-component) requests
+ */
+export const PRERENDER_MANIFEST = 'prerender-manifest.json'
+
+export interface PrerenderManifest {
+  /** cacheControl comes from the route's revalidate / dynamic exports */
+  routes: Record<string, { html: string; flight: string; cacheControl?: string }>
+  /** URLs left to Page(), with the status their render had and why */
+  skipped: Record<string, { status: number; reason: string }>
+}
+
+/** One prerendered URL */
+export interface PrerenderedPage {
+  /** Public URL (base path and canonical trailing slash included) */
+  url: string
+  /** Route pattern it was rendered from */
+  pattern: string
+  /** Locale it was rendered in (with the i18n option) */
+  locale: string | null
+  /** Cache-Control of the route, when its revalidate / dynamic exports set one */
+  cacheControl: string | null
+  /** Metadata head elements */
+  head: string
+  /** Server-rendered markup for #root */
+  content: string
+  /** Flight payload, as Page() streams it */
+  flight: string
+}
+
+/**
+ * A static route URL that isn't prerendered - Page() renders it on every request
+ * (renders that throw, e.g. by calling a tana/* runtime module, are skipped with status 500)
+ */
+export interface SkippedPage {
+  url: string
+  pattern: string
+  /** Status the response has (404 for notFound(), 500 for error.tsx, 3xx for redirects) */
+  status: number
+  reason: string
+}
+
+/** Status and searchParams reads of one Page() call (see Page() in the contract) */
+interface RenderTrace {
+  status: number
+  searchParams: boolean
+}
+
+/** A server element after rendering - types are host tags or client references */
+interface RenderedElement {
+  $$typeof: symbol
+  type: string | ClientReference
+  key: string | null
+  props: Record<string, any>
+}
+
+interface ClientReference {
+  $$typeof: symbol
+  $$id: string
+}
+
+type RenderedNode = string | null | RenderedNode[] | RenderedElement
+
+const ELEMENT = Symbol.for('addis.element')
+const FRAGMENT = Symbol.for('addis.fragment')
+const SUSPENSE = Symbol.for('addis.suspense')
+
+/** Void elements - rendered without a closing tag */
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+
+/** Numeric style properties that take no px unit */
+const UNITLESS_STYLES = new Set(['flex', 'flexGrow', 'flexShrink', 'fontWeight', 'lineHeight', 'opacity', 'order', 'zIndex', 'zoom'])
+
+/**
+ * Prerender a contract's static routes
+ * Page() runs with the same request shape tana-edge passes it, so redirects,
+ * rewrites, layouts and metadata apply as they do on the edge. Renders that
+ * don't answer 200 (notFound(), error.tsx, redirects) and pages reading
+ * searchParams are skipped - their output depends on the request - and so
+ * are renders that throw (tana/* runtime modules only exist on tana-edge).
+ */
+export async function prerenderContract(
+  contractPath: string,
+  options: { basePath?: string; trailingSlash?: TrailingSlash; i18n?: I18nConfig } = {}
+): Promise<{ pages: PrerenderedPage[]; skipped: SkippedPage[] }> {
+  const { i18n } = options
+  const contract = await loadContract(contractPath)
+  const routes: Array<{
+    pattern: string
+    params: Record<string, string | string[]>
+    cacheControl: string | null
+    locale?: string
+  }> = await contract.staticRoutes()
+  const pages: PrerenderedPage[] = []
+  const skipped: SkippedPage[] = []
+  const seen = new Set<string>()
+
+  for (const { pattern, params, cacheControl, locale } of routes) {
+    const path = i18n && locale ? localizeUrl(routeUrl(pattern, params), locale, i18n) : routeUrl(pattern, params)
+    const url = canonicalUrl(withBasePath(path, options.basePath || ''), options.trailingSlash)
+    if (seen.has(url)) continue
+    seen.add(url)
+
+    const trace: RenderTrace = { status: 200, searchParams: false }
+    let tree: RenderedNode
+    try {
+      tree = await renderNode(await contract.Page({ request: { path: url, method: 'GET', headers: {} }, trace }))
+    } catch (error) {
+      // Errors no boundary caught, like calls into tana/* runtime modules (not available in Node)
+      skipped.push({ url, pattern, status: 500, reason: `render failed: ${(error as Error)?.message ?? error}` })
+      continue
+    }
+    if (trace.status !== 200 || trace.searchParams) {
+      skipped.push({ url, pattern, status: trace.status, reason: skipReason(trace) })
+      continue
+    }
+
+    const flight = `0:${JSON.stringify(toFlight(tree))}\n`
+    const head = [renderHeadTags(flight)]
+    const content = toHtml(tree, head)
+
+    pages.push({ url, pattern, locale: locale ?? null, cacheControl, head: head.filter(Boolean).join('\n  '), content, flight })
+  }
+
+  return { pages, skipped }
+}
+
+function skipReason(trace: RenderTrace): string {
+  if (trace.status === 404) return 'not found'
+  if (trace.status >= 500) return 'error boundary'
+  if (trace.status >= 300 && trace.status < 400) return 'redirect'
+  return 'reads searchParams'
+}
+
+/**
+ * Output file for a prerendered URL, relative to the contract directory
+ * ('/' → prerender/index.html, '/posts/1' → prerender/posts/1/index.html)
+ */
+export function prerenderFile(url: string, extension: 'html' | 'rsc'): string {
+  const segments = url.split('/').filter(Boolean)
+  return [PRERENDER_DIR, ...segments, `index.${extension}`].join('/')
+}
+
+/**
+ * Load contract.js in Node
+ * jsx/Fragment/Suspense (globals on tana-edge) become plain element factories
+ * and tana/* runtime modules are stubbed (see module-loader)
+ */
+export async function loadContract(contractPath: string): Promise<any> {
+  return importProjectModule(contractPath, {
+    banner: [
+      `const jsx = (type, { key = null, ...props } = {}, maybeKey) => ({ $$typeof: Symbol.for('addis.element'), type, key: maybeKey ?? key, props });`,
+      'const jsxs = jsx;',
+      `const Fragment = Symbol.for('addis.fragment');`,
+      `const Suspense = Symbol.for('addis.suspense');`,
+    ].join('\n'),
+  })
+}
+
+/**
+ * Render server components down to host elements and client references
+ * Suspense boundaries resolve to their content - a prerendered page is complete
+ */
+async function renderNode(node: any): Promise<RenderedNode> {
+  node = await node
+  if (node === null || node === undefined || typeof node === 'boolean') return null
+  if (typeof node === 'string' || typeof node === 'number') return String(node)
+  if (Array.isArray(node)) return Promise.all(node.map(renderNode))
+  if (node.$$typeof !== ELEMENT) return null
+
+  const { type, key, props } = node
+  if (typeof type === 'function') return renderNode(type(props))
+  if (type === FRAGMENT || type === SUSPENSE) return renderNode(props.children)
+
+  const rendered: Record<string, any> = {}
+  for (const [name, value] of Object.entries(props as Record<string, any>)) {
+    rendered[name] = value?.$$typeof === ELEMENT || Array.isArray(value) ? await renderNode(value) : value
+  }
+  return { $$typeof: ELEMENT, type, key, props: rendered }
+}
+
+/**
+ * Flight row value for a rendered tree (the format the hydration module parses)
+ */
+function toFlight(node: unknown): unknown {
+  if (node === undefined) return '$undefined'
+  if (node === null || typeof node !== 'object') return node
+  if (Array.isArray(node)) return node.map(toFlight)
+
+  const element = node as RenderedElement
+  if (element.$$typeof === ELEMENT) {
+    const type = typeof element.type === 'string' ? element.type : `$C${element.type.$$id}`
+    return ['$', type, element.key, toFlight(element.props)]
+  }
+
+  return Object.fromEntries(Object.entries(node).map(([name, value]) => [name, toFlight(value)]))
+}
+
+/**
+ * HTML for a rendered tree
+ * html/body wrappers from the root layout are unwrapped (the page renders into
+ * #root), head children and metadata elements are collected into head, and
+ * client components become placeholders for the hydration module to mount
+ */
+function toHtml(node: RenderedNode, head: string[]): string {
+  if (node === null) return ''
+  if (typeof node === 'string') return escapeHtml(node)
+  if (Array.isArray(node)) return node.map(child => toHtml(child, head)).join('')
+
+  const { type, props } = node
+  if (typeof type !== 'string') {
+    return `<div data-addis-client="${escapeHtml(type.$$id)}" data-addis-props="${escapeHtml(JSON.stringify(toFlight(props)))}"></div>`
+  }
+
+  if (props[HEAD_MARKER] !== undefined) return ''
+  if (type === 'html' || type === 'body') return toHtml(props.children ?? null, head)
+  if (type === 'head') {
+    head.push(toHtml(props.children ?? null, head))
+    return ''
+  }
+
+  const attributes = Object.entries(props).map(([name, value]) => renderAttribute(name, value)).join('')
+  if (VOID_TAGS.has(type)) return `<${type}${attributes}>`
+
+  const inner = props.dangerouslySetInnerHTML?.__html ?? toHtml(props.children ?? null, head)
+  return `<${type}${attributes}>${inner}</${type}>`
+}
+
+function renderAttribute(name: string, value: unknown): string {
+  if (name === 'children' || name === 'key' || name === 'ref' || name === 'dangerouslySetInnerHTML') return ''
+  if (value === null || value === undefined || value === false || typeof value === 'function') return ''
+
+  const attribute = name === 'className' ? 'class' : name === 'htmlFor' ? 'for' : name
+  if (value === true) return ` ${attribute}`
+  if (name === 'style' && typeof value === 'object') return ` style="${escapeHtml(renderStyle(value as Record<string, unknown>))}"`
+  return ` ${attribute}="${escapeHtml(String(value))}"`
+}
+
+function renderStyle(style: Record<string, unknown>): string {
+  return Object.entries(style)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([property, value]) => {
+      const cssProperty = property.startsWith('--') ? property : property.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)
+      const cssValue = typeof value === 'number' && value !== 0 && !UNITLESS_STYLES.has(property) ? `${value}px` : String(value)
+      return `${cssProperty}:${cssValue}`
+    })
+    .join(';')
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
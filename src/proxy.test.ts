@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { edgeRequestHeaders } from './proxy.js'
+
+describe('edgeRequestHeaders', () => {
+  it('forwards end-to-end headers', () => {
+    const headers = edgeRequestHeaders({
+      cookie: 'session=1',
+      'accept-language': 'fr',
+      'x-forwarded-for': '10.0.0.1',
+    })
+    expect(headers).toEqual({ cookie: 'session=1', 'accept-language': 'fr', 'x-forwarded-for': '10.0.0.1' })
+  })
+
+  it('forwards If-None-Match, so the contract can answer 304', () => {
+    expect(edgeRequestHeaders({ 'if-none-match': 'W/"abc-1"' })).toEqual({ 'if-none-match': 'W/"abc-1"' })
+  })
+
+  it('drops hop-by-hop headers, host and accept-encoding', () => {
+    const headers = edgeRequestHeaders({
+      host: 'localhost:5173',
+      connection: 'keep-alive',
+      'keep-alive': 'timeout=5',
+      'transfer-encoding': 'chunked',
+      upgrade: 'websocket',
+      'accept-encoding': 'gzip',
+      accept: 'text/html',
+    })
+    expect(headers).toEqual({ accept: 'text/html' })
+  })
+
+  it('drops headers the Connection header lists', () => {
+    expect(edgeRequestHeaders({ connection: 'close, X-Trace', 'x-trace': '1', 'x-kept': '2' })).toEqual({ 'x-kept': '2' })
+  })
+
+  it('sets the length of a body, JSON unless the request has a type', () => {
+    expect(edgeRequestHeaders({ 'content-length': '99' }, '{"a":1}')).toEqual({
+      'content-type': 'application/json',
+      'content-length': '7',
+    })
+    expect(edgeRequestHeaders({ 'content-type': 'text/plain' }, 'hé')['content-type']).toBe('text/plain')
+    expect(edgeRequestHeaders({}, 'hé')['content-length']).toBe('3')
+  })
+})
@@ -0,0 +1,48 @@
+// Addis Dev Proxy Headers
+// The dev server answers page and API requests by proxying them to tana-edge.
+// Requests keep the browser's headers (cookies, Accept-Language, If-None-Match,
+// ...) so middleware, locale detection and ETags behave as they do on the edge.
+
+import type { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http'
+
+/** Connection-level headers that must not be copied onto the Vite response */
+export const HOP_BY_HOP_HEADERS = ['connection', 'content-length', 'keep-alive', 'transfer-encoding']
+
+/**
+ * Request headers that belong to the browser's connection to Vite, not the
+ * proxied request - host is the dev server's, and accept-encoding is dropped
+ * because the proxy reads tana-edge's response as text
+ */
+const REQUEST_ONLY_HEADERS = [
+  ...HOP_BY_HOP_HEADERS,
+  'host',
+  'upgrade',
+  'te',
+  'trailer',
+  'proxy-authorization',
+  'proxy-connection',
+  'accept-encoding',
+]
+
+/**
+ * Headers to send tana-edge for an incoming dev server request
+ * Hop-by-hop headers (and any the Connection header lists) are left out;
+ * a body gets its own Content-Length, and JSON unless the request says otherwise
+ */
+export function edgeRequestHeaders(incoming: IncomingHttpHeaders, body?: string): OutgoingHttpHeaders {
+  const connection = String(incoming.connection ?? '').split(',').map(name => name.trim().toLowerCase())
+
+  const headers: OutgoingHttpHeaders = {}
+  for (const [name, value] of Object.entries(incoming)) {
+    const lower = name.toLowerCase()
+    if (value === undefined || REQUEST_ONLY_HEADERS.includes(lower) || connection.includes(lower)) continue
+    headers[lower] = value
+  }
+
+  if (body) {
+    headers['content-type'] ??= 'application/json'
+    headers['content-length'] = Buffer.byteLength(body).toString()
+  }
+
+  return headers
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { scanProject } from './routes.js'
+import { generateRouteTypes, paramsType } from './route-types.js'
+import { writeProject } from './test-utils.js'
+
+const page = 'export default function Page() { return null }'
+
+describe('paramsType', () => {
+  it('types catch-all params as string arrays', () => {
+    expect(paramsType('/')).toBe('{}')
+    expect(paramsType('/posts/:id')).toBe('{ id: string }')
+    expect(paramsType('/docs/:version/:slug*')).toBe('{ version: string; slug: string[] }')
+  })
+})
+
+describe('generateRouteTypes', () => {
+  it('declares route patterns, path templates and params for pages and API routes', async () => {
+    const root = writeProject({
+      'app/page.tsx': page,
+      'app/posts/[id]/page.tsx': page,
+      'app/docs/[[...slug]]/page.tsx': page,
+      'api/posts/[id]/get.ts': page,
+    })
+    const types = generateRouteTypes(await scanProject(root))
+
+    expect(types).toContain(`export type PageRoute = '/' | '/posts/:id' | '/docs/:slug*'`)
+    expect(types).toContain("export type PagePath = '/' | `/posts/${string}` | '/docs' | `/docs/${string}`")
+    expect(types).toContain("export type ApiPath = `/api/posts/${string}`")
+    expect(types).toContain(`    '/docs/:slug*': { slug: string[] }`)
+    expect(types).toContain('locale: undefined')
+  })
+
+  it('types the locale of PageProps with the i18n option', async () => {
+    const root = writeProject({ 'app/page.tsx': page })
+    const types = generateRouteTypes(await scanProject(root), { i18n: { locales: ['en', 'fr'], defaultLocale: 'en' } })
+
+    expect(types).toContain(`export type Locale = 'en' | 'fr'`)
+    expect(types).toContain('locale: Locale')
+    expect(types).toContain('export type ApiRoute = never')
+  })
+})
@@ -0,0 +1,166 @@
+// Addis Route Types Generator
+// Generates .addis/routes.d.ts so hrefs and params are checked at compile time
+
+import { API_HANDLERS, API_METHODS, isCatchAllSegment } from './routes.js'
+import type { I18nConfig, ProjectStructure } from './types.js'
+
+/**
+ * Generate the routes.d.ts declarations for a scanned project
+ *
+ * Declares the virtual 'tana/routes' module, so pages can write
+ *   import type { PageProps, PagePath } from 'tana/routes'
+ *   export default function Post({ params }: PageProps<'/posts/:id'>) { ... }
+ * or type a page's metadata with Metadata / GenerateMetadata<'/posts/:id'>,
+ * and a renamed folder fails type-checking instead of production.
+ * With the i18n option, PageProps carries the page's Locale.
+ */
+export function generateRouteTypes(structure: ProjectStructure, options: { i18n?: I18nConfig } = {}): string {
+  const { i18n } = options
+  const pageRoutes = unique(structure.pages.map(page => page.routePath))
+  const apiRoutes = unique(
+    API_METHODS.flatMap(method => structure[API_HANDLERS[method]].map(route => route.routePath))
+  )
+
+  return `// Route types for this project (generated by vite-plugin-addis on every scan - do not edit)
+// Add ".addis/*.d.ts" to "include" in tsconfig.json to use them
+
+declare module 'tana/routes' {
+  /** Page route patterns from app/ */
+  export type PageRoute = ${unionOf(pageRoutes.map(literal))}
+
+  /** API route patterns from api/ (served under /api) */
+  export type ApiRoute = ${unionOf(apiRoutes.map(literal))}
+
+  /** URLs served by a page - use for hrefs */
+  export type PagePath = ${unionOf(unique(pageRoutes.flatMap(route => pathTypes(route))))}
+
+  /** URLs served by an API handler */
+  export type ApiPath = ${unionOf(unique(apiRoutes.flatMap(route => pathTypes(joinApiPath(route)))))}
+
+  /** Params of each page route - catch-alls are string arrays */
+  export interface PageParams {
+${paramsEntries(pageRoutes)}
+  }
+
+  /** Params of each API route - catch-alls are string arrays */
+  export interface ApiParams {
+${paramsEntries(apiRoutes)}
+  }
+
+  /** Locales from the i18n plugin option */
+  export type Locale = ${unionOf(i18n ? i18n.locales.map(literal) : [])}
+
+  /** Query string of a request - repeated keys become arrays */
+  export type SearchParams = Record<string, string | string[]>
+
+  /** Props passed to the page (and its layouts) at a route */
+  export interface PageProps<R extends PageRoute = PageRoute> {
+    params: PageParams[R]
+    searchParams: SearchParams
+    /** Locale of the URL (its prefix, or the default locale) */
+    locale: ${i18n ? 'Locale' : 'undefined'}
+    request: { path: string; [key: string]: unknown }
+  }
+
+  type MetadataImage = string | { url: string; width?: number; height?: number; alt?: string }
+
+  /**
+   * Head metadata of a page or layout - merged root layout → page, later keys win
+   * The dev server and prerendered pages serve the tags in their HTML; other
+   * production pages get them on hydration, so crawlers that don't run
+   * JavaScript only see them for prerendered pages
+   */
+  export interface Metadata {
+    /** A template ('%s | Blog') applies to string titles of the pages below */
+    title?: string | { default?: string; template?: string; absolute?: string }
+    description?: string
+    keywords?: string | string[]
+    robots?: string
+    alternates?: { canonical?: string }
+    openGraph?: {
+      title?: string
+      description?: string
+      url?: string
+      siteName?: string
+      type?: string
+      locale?: string
+      images?: MetadataImage | MetadataImage[]
+    }
+    twitter?: {
+      card?: 'summary' | 'summary_large_image' | 'app' | 'player'
+      site?: string
+      creator?: string
+      title?: string
+      description?: string
+      images?: MetadataImage | MetadataImage[]
+    }
+    /** Extra <meta name content> tags */
+    other?: Record<string, string | string[]>
+  }
+
+  /** export async function generateMetadata(props): Promise<Metadata> */
+  export type GenerateMetadata<R extends PageRoute = PageRoute> = (props: PageProps<R>) => Metadata | Promise<Metadata>
+
+  /** export async function generateStaticParams(): params of the pages to prerender */
+  export type GenerateStaticParams<R extends PageRoute = PageRoute> = () => PageParams[R][] | Promise<PageParams[R][]>
+}
+`
+}
+
+/**
+ * Template literal types for the URLs a route pattern matches
+ * e.g. '/posts/:id' → `/posts/${string}`, '/docs/:slug*' → '/docs' | `/docs/${string}`
+ */
+function pathTypes(routePath: string): string[] {
+  const segments = routePath.split('/').filter(Boolean)
+  const last = segments[segments.length - 1]
+
+  // An optional catch-all also matches its parent path
+  if (last && last.endsWith('*') && isCatchAllSegment(last)) {
+    const parent = segments.slice(0, -1)
+    return [pathType(parent), pathType([...parent, ':rest'])]
+  }
+
+  return [pathType(segments)]
+}
+
+function pathType(segments: string[]): string {
+  if (segments.length === 0) return literal('/')
+  if (!segments.some(segment => segment.startsWith(':'))) {
+    return literal(`/${segments.join('/')}`)
+  }
+
+  const parts = segments.map(segment => segment.startsWith(':') ? '${string}' : segment)
+  return `\`/${parts.join('/')}\``
+}
+
+function paramsEntries(routes: string[]): string {
+  return routes.map(route => `    ${literal(route)}: ${paramsType(route)}`).join('\n')
+}
+
+/**
+ * Params type literal for a route pattern (catch-alls are string arrays)
+ * e.g. '/posts/:id' → '{ id: string }', '/' → '{}'
+ */
+export function paramsType(routePath: string): string {
+  const fields = routePath.split('/').filter(segment => segment.startsWith(':')).map(segment =>
+    isCatchAllSegment(segment) ? `${segment.slice(1, -1)}: string[]` : `${segment.slice(1)}: string`
+  )
+  return fields.length > 0 ? `{ ${fields.join('; ')} }` : '{}'
+}
+
+function joinApiPath(routePath: string): string {
+  return routePath === '/' ? '/api' : `/api${routePath}`
+}
+
+function unionOf(types: string[]): string {
+  return types.length > 0 ? types.join(' | ') : 'never'
+}
+
+function literal(value: string): string {
+  return `'${value}'`
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)]
+}
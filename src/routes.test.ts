@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import * as path from 'path'
+import { compareRoutePaths, createRouteManifest, findRouteConflict, scanProject } from './routes.js'
+import { writeProject } from './test-utils.js'
+
+const page = 'export default function Page() { return null }'
+
+describe('compareRoutePaths', () => {
+  it('ranks static segments before dynamic ones, and dynamic before catch-alls', () => {
+    const paths = ['/docs/:slug*', '/docs/:slug+', '/docs/:id', '/docs/intro', '/docs']
+    expect([...paths].sort(compareRoutePaths)).toEqual(['/docs', '/docs/intro', '/docs/:id', '/docs/:slug+', '/docs/:slug*'])
+  })
+
+  it('compares segments left to right before segment count', () => {
+    expect(['/:a/b/c', '/a/:b'].sort(compareRoutePaths)).toEqual(['/a/:b', '/:a/b/c'])
+  })
+
+  it('orders ties by path, independent of input order', () => {
+    expect(['/b', '/a'].sort(compareRoutePaths)).toEqual(['/a', '/b'])
+    expect(['/a', '/b'].sort(compareRoutePaths)).toEqual(['/a', '/b'])
+  })
+})
+
+describe('findRouteConflict', () => {
+  it('reports sibling params with different names', () => {
+    const a = { filePath: 'app/posts/[id]/page.tsx', routePath: '/posts/:id' }
+    const b = { filePath: 'app/posts/[slug]/page.tsx', routePath: '/posts/:slug' }
+    expect(findRouteConflict([a, b])).toEqual([a, b])
+  })
+
+  it('reports an optional catch-all overlapping its parent page', () => {
+    const a = { filePath: 'app/docs/page.tsx', routePath: '/docs' }
+    const b = { filePath: 'app/docs/[[...slug]]/page.tsx', routePath: '/docs/:slug*' }
+    expect(findRouteConflict([a, b])).toEqual([a, b])
+  })
+
+  it('accepts routes that match different URLs', () => {
+    expect(findRouteConflict([
+      { filePath: 'a', routePath: '/posts/:id' },
+      { filePath: 'b', routePath: '/posts/:id/edit' },
+      { filePath: 'c', routePath: '/posts/:slug+' },
+    ])).toBeNull()
+  })
+})
+
+describe('scanProject', () => {
+  it('returns pages in ranked order', async () => {
+    const root = writeProject({
+      'app/[...slug]/page.tsx': page,
+      'app/posts/[id]/page.tsx': page,
+      'app/posts/new/page.tsx': page,
+      'app/page.tsx': page,
+    })
+
+    const structure = await scanProject(root)
+    expect(structure.root).toBe(root)
+    expect(structure.pages.map(p => p.routePath)).toEqual(['/', '/posts/new', '/posts/:id', '/:slug+'])
+  })
+
+  it('leaves route groups and private folders out of the URL', async () => {
+    const root = writeProject({
+      'app/(marketing)/about/page.tsx': page,
+      'app/_parts/page.tsx': page,
+    })
+
+    const structure = await scanProject(root)
+    expect(structure.pages.map(p => p.routePath)).toEqual(['/about'])
+  })
+})
+
+describe('createRouteManifest', () => {
+  it('lists pages with their layouts, then API routes with a handler per method', async () => {
+    const root = writeProject({
+      'app/layout.tsx': page,
+      'app/posts/page.tsx': page,
+      'api/posts/get.ts': page,
+      'api/posts/post.ts': page,
+      'api/get.ts': page,
+    })
+
+    expect(createRouteManifest(await scanProject(root))).toEqual({
+      routes: [
+        { path: '/posts', component: path.join(root, 'app/posts/page.tsx'), layouts: [path.join(root, 'app/layout.tsx')] },
+        { path: '/api', get: path.join(root, 'api/get.ts') },
+        { path: '/api/posts', get: path.join(root, 'api/posts/get.ts'), post: path.join(root, 'api/posts/post.ts') },
+      ],
+    })
+  })
+})
@@ -1,114 +1,548 @@
 // Addis Route Scanner
-// File-based routing from app/ directory
+// File-based routing from app/ (pages) and api/ (handlers)
+// This is the single route model: the manifest, the contract generator and
+// the dev server all consume the ProjectStructure produced here
 
 import path from 'path'
 import fs from 'fs'
-import type { RouteManifest } from './types.js'
+import type {
+  ApiMethod,
+  RouteManifest,
+  RouteFile,
+  RouteSegment,
+  ClientComponent,
+  ProjectStructure,
+} from './types.js'
 
 /**
- * Scan the project for routes (Feature #3: File-based routing from app/)
+ * Directory names that never contribute routes (in app/ and api/)
+ * Extended by the `ignoreDirs` plugin option
+ */
+export const DEFAULT_IGNORED_DIRS = ['components', 'lib', 'utils', 'styles']
+
+export interface ScanOptions {
+  /** Extra directory names to skip, on top of DEFAULT_IGNORED_DIRS */
+  ignoreDirs?: string[]
+}
+
+/** Extensions accepted for every route file */
+const ROUTE_FILE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js']
+
+/** Segment file base names recognised in each app/ directory */
+export const SEGMENT_FILES: Record<keyof RouteSegment, RouteFile['type']> = {
+  layout: 'layout',
+  error: 'error',
+  notFound: 'not-found',
+  loading: 'loading',
+}
+
+/**
+ * Handler file base names recognised in each api/ directory, mapped to the
+ * ProjectStructure list they are collected into
+ */
+export const API_HANDLERS: Record<ApiMethod, ApiHandlerList> = {
+  get: 'apiGet',
+  post: 'apiPost',
+  put: 'apiPut',
+  patch: 'apiPatch',
+  delete: 'apiDelete',
+  head: 'apiHead',
+  options: 'apiOptions',
+}
+
+type ApiHandlerList = 'apiGet' | 'apiPost' | 'apiPut' | 'apiPatch' | 'apiDelete' | 'apiHead' | 'apiOptions'
+
+/** API methods in a stable order, for iterating API_HANDLERS */
+export const API_METHODS = Object.keys(API_HANDLERS) as ApiMethod[]
+
+/** What a directory in app/ inherits from the directories above it */
+interface RouteChain {
+  segments: RouteSegment[]
+  middleware: string[]
+}
+
+/**
+ * Scan project for routes and handlers
  *
  * Looks for:
- * - page.tsx/page.jsx - Page components
- * - get.ts/get.tsx - GET request handlers
- * - post.ts/post.tsx - POST request handlers
+ * - page.tsx in app/ - Page components (plus layout, error, not-found, loading)
+ * - get.ts, post.ts, put.ts, patch.ts, delete.ts, head.ts, options.ts in api/ -
+ *   request handlers per HTTP method (served under /api)
+ * - app/sitemap.ts, app/robots.ts - sitemap.xml and robots.txt content
+ * - blockchain/init.ts, blockchain/contract.ts - On-chain handlers
+ * - 'use client' files in app/, components/ and public/
+ *
+ * Every route file accepts .tsx, .ts, .jsx and .js.
  *
  * Example structure:
  *   app/
  *     page.tsx       # Root page (/)
- *     get.ts         # GET handler for /
+ *     layout.tsx     # Root layout, wraps every page
  *     blog/
  *       page.tsx     # Blog page (/blog)
- *       get.ts       # GET handler for /blog
  *       [id]/
  *         page.tsx   # Post page (/blog/:id)
- *         get.ts     # GET handler for /blog/:id
+ *     docs/
+ *       [...slug]/
+ *         page.tsx   # Docs page (/docs/:slug+), slug is a string array
+ *     (marketing)/   # Route group - no URL segment, may have its own layout
+ *       pricing/
+ *         page.tsx   # Pricing page (/pricing)
+ *     _components/   # Private folder - never routed
+ *   api/
+ *     get.ts         # GET /api
+ *     posts/
+ *       [id]/
+ *         get.ts     # GET /api/posts/:id
  */
-export async function scanRoutes(root: string): Promise<RouteManifest> {
-  const routes: RouteManifest['routes'] = []
-  const appDir = path.join(root, 'app')
+export async function scanProject(root: string, options: ScanOptions = {}): Promise<ProjectStructure> {
+  const ignoreDirs = resolveIgnoredDirs(options)
+  const structure: ProjectStructure = {
+    root,
+    pages: [],
+    layouts: [],
+    errorPages: [],
+    notFoundPages: [],
+    loadingPages: [],
+    apiGet: [],
+    apiPost: [],
+    apiPut: [],
+    apiPatch: [],
+    apiDelete: [],
+    apiHead: [],
+    apiOptions: [],
+    middleware: [],
+    rootMiddleware: {},
+    clientComponents: [],
+  }
 
-  // Only scan app/ directory (not app/views or src)
+  // Scan app/ for pages and their segment files
+  const appDir = path.join(root, 'app')
   if (fs.existsSync(appDir)) {
-    scanDir(appDir, '', routes)
+    walkRouteDirs<RouteChain>(appDir, '', ignoreDirs, { segments: [], middleware: [] }, (dir, routePath, chain) => {
+      const segment = collectSegmentFiles(dir, routePath, structure)
+      const middleware = collectMiddleware(dir, routePath, structure, chain.middleware)
+      if (dir === appDir) {
+        structure.rootSegment = segment
+        structure.rootMiddleware.app = middleware.at(-1)
+      }
+
+      const segments = segment ? [...chain.segments, segment] : chain.segments
+      const pageFile = findRouteFile(dir, 'page')
+      if (pageFile) {
+        structure.pages.push(createRoute(pageFile, routePath, 'page', segments, middleware))
+      }
+
+      return { segments, middleware }
+    })
+
+    // sitemap.ts / robots.ts next to the root layout
+    const sitemapFile = findRouteFile(appDir, 'sitemap')
+    if (sitemapFile) structure.sitemap = createRoute(sitemapFile, '/sitemap.xml', 'sitemap')
+    const robotsFile = findRouteFile(appDir, 'robots')
+    if (robotsFile) structure.robots = createRoute(robotsFile, '/robots.txt', 'robots')
+  }
+
+  // Scan api/ for request handlers (one file per HTTP method)
+  const apiDir = path.join(root, 'api')
+  if (fs.existsSync(apiDir)) {
+    walkRouteDirs<string[]>(apiDir, '', ignoreDirs, [], (dir, routePath, chain) => {
+      const middleware = collectMiddleware(dir, routePath, structure, chain)
+      if (dir === apiDir) {
+        structure.rootMiddleware.api = middleware.at(-1)
+      }
+
+      for (const method of API_METHODS) {
+        const handlerFile = findRouteFile(dir, method)
+        if (handlerFile) {
+          structure[API_HANDLERS[method]].push(createRoute(handlerFile, routePath, method, undefined, middleware))
+        }
+      }
+      return middleware
+    })
+  }
+
+  // Rank routes (static → dynamic → catch-all) so the generated routers
+  // check them in a deterministic, most-specific-first order
+  for (const routes of [structure.pages, ...API_METHODS.map(m => structure[API_HANDLERS[m]])]) {
+    routes.sort((a, b) => compareRoutePaths(a.routePath, b.routePath))
+  }
+
+  // Check for blockchain handlers
+  const blockchainDir = path.join(root, 'blockchain')
+  const initPath = path.join(blockchainDir, 'init.ts')
+  const contractPath = path.join(blockchainDir, 'contract.ts')
+
+  if (fs.existsSync(initPath)) {
+    structure.init = {
+      filePath: initPath,
+      routePath: '',
+      type: 'init',
+    }
+  }
+
+  if (fs.existsSync(contractPath)) {
+    structure.contract = {
+      filePath: contractPath,
+      routePath: '',
+      type: 'contract',
+    }
   }
 
-  return { routes }
+  // Scan for client components ('use client' files) in app/, components/, and public/
+  // These will be bundled separately and registered for hydration
+  scanForClientComponents(appDir, root, structure.clientComponents)
+
+  const componentsDir = path.join(root, 'components')
+  if (fs.existsSync(componentsDir)) {
+    scanForClientComponents(componentsDir, root, structure.clientComponents)
+  }
+
+  const publicDir = path.join(root, 'public')
+  if (fs.existsSync(publicDir)) {
+    scanForClientComponents(publicDir, root, structure.clientComponents)
+  }
+
+  return structure
 }
 
 /**
- * Recursively scan directory for route files
+ * Build the route manifest (.addis/manifest.json) from a scanned project
+ * Pages keep their URL path, API handlers are listed under /api like the
+ * contract serves them
+ */
+export function createRouteManifest(structure: ProjectStructure): RouteManifest {
+  const routes: RouteManifest['routes'] = structure.pages.map(page => {
+    const layouts = (page.segments || []).flatMap(s => s.layout ? [s.layout] : [])
+    return {
+      path: page.routePath,
+      component: page.filePath,
+      ...(layouts.length > 0 && { layouts }),
+    }
+  })
+
+  const apiRoutes = new Map<string, RouteManifest['routes'][number]>()
+  for (const method of API_METHODS) {
+    for (const handler of structure[API_HANDLERS[method]]) {
+      const apiPath = handler.routePath === '/' ? '/api' : `/api${handler.routePath}`
+      const route = apiRoutes.get(apiPath) || { path: apiPath }
+      route[method] = handler.filePath
+      apiRoutes.set(apiPath, route)
+    }
+  }
+
+  return {
+    routes: [...routes, ...[...apiRoutes.values()].sort((a, b) => compareRoutePaths(a.path, b.path))],
+  }
+}
+
+/**
+ * Recursively walk a route directory tree (app/ or api/)
+ * visit() is called for the directory itself and every routable directory
+ * below it, parents before children. Whatever it returns is handed to the
+ * children, which lets segment chains flow from root → leaf.
  * Supports:
- * - page.tsx/page.jsx - Page components
- * - get.ts/get.tsx - GET handlers
- * - post.ts/post.tsx - POST handlers
- * - layout.tsx/layout.jsx - Layout wrappers (nested from root → leaf)
  * - Dynamic routes: [param]/ directories
+ * - Catch-all routes: [...param]/ and [[...param]]/ directories
+ * - Route groups: (group)/ directories (no URL segment)
+ * - Private folders: _folder/ directories (skipped)
  */
-function scanDir(
+function walkRouteDirs<T>(
   dir: string,
   prefix: string,
-  routes: RouteManifest['routes'],
-  layouts: string[] = []  // Layout chain from root to current directory
+  ignoreDirs: string[],
+  context: T,
+  visit: (dir: string, routePath: string, context: T) => T
 ) {
-  const entries = fs.readdirSync(dir, { withFileTypes: true })
+  const childContext = visit(dir, prefix || '/', context)
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    // Skip files, private (_folder) and utility directories
+    if (!entry.isDirectory() || isIgnoredDir(entry.name, ignoreDirs)) {
+      continue
+    }
+
+    // Handle dynamic routes ([id]/, [...slug]/, [[...slug]]/) and route groups ((group)/)
+    walkRouteDirs(path.join(dir, entry.name), joinRoutePath(prefix, entry.name), ignoreDirs, childContext, visit)
+  }
+}
 
-  // Track handlers for this route
-  let pageComponent: string | undefined
-  let getHandler: string | undefined
-  let postHandler: string | undefined
-  let layoutComponent: string | undefined
+/**
+ * Find a route file by base name (e.g. 'page' → page.tsx, page.ts, page.jsx, page.js)
+ */
+function findRouteFile(dir: string, baseName: string): string | undefined {
+  return ROUTE_FILE_EXTENSIONS
+    .map(ext => path.join(dir, baseName + ext))
+    .find(p => fs.existsSync(p))
+}
+
+/**
+ * Create a page or handler route entry
+ */
+function createRoute(
+  filePath: string,
+  routePath: string,
+  type: RouteFile['type'],
+  segments?: RouteSegment[],
+  middleware?: string[]
+): RouteFile {
+  // A catch-all consumes the rest of the path, so nothing can be routed below it
+  const pathSegments = routePath.split('/').filter(Boolean)
+  if (pathSegments.slice(0, -1).some(isCatchAllSegment)) {
+    throw new Error(`Catch-all segment must be the last segment in a route: ${filePath}`)
+  }
+
+  const params = getRouteParams(routePath)
+
+  return {
+    filePath,
+    routePath,
+    type,
+    params: params.length > 0 ? params : undefined,
+    segments: segments && segments.length > 0 ? segments : undefined,
+    middleware: middleware && middleware.length > 0 ? middleware : undefined,
+  }
+}
+
+/**
+ * Collect a directory's segment files (layout, error, not-found, loading) into the
+ * project structure. Returns undefined when the directory has none.
+ */
+function collectSegmentFiles(
+  dir: string,
+  routePath: string,
+  structure: ProjectStructure
+): RouteSegment | undefined {
+  const segment: RouteSegment = {}
+  const targets = {
+    layout: structure.layouts,
+    error: structure.errorPages,
+    notFound: structure.notFoundPages,
+    loading: structure.loadingPages,
+  }
+
+  for (const [key, type] of Object.entries(SEGMENT_FILES) as [keyof RouteSegment, RouteFile['type']][]) {
+    const filePath = findRouteFile(dir, type)
+    if (filePath) {
+      segment[key] = filePath
+      targets[key].push({ filePath, routePath, type })
+    }
+  }
+
+  return Object.keys(segment).length > 0 ? segment : undefined
+}
+
+/**
+ * Collect a directory's middleware.ts into the project structure and return the
+ * middleware chain for routes at or below it (outer → inner)
+ */
+function collectMiddleware(
+  dir: string,
+  routePath: string,
+  structure: ProjectStructure,
+  chain: string[]
+): string[] {
+  const filePath = findRouteFile(dir, 'middleware')
+  if (!filePath) return chain
+
+  structure.middleware.push({ filePath, routePath, type: 'middleware' })
+  return [...chain, filePath]
+}
+
+/**
+ * Check if a file has 'use client' directive at the top
+ */
+function hasUseClientDirective(filePath: string): boolean {
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8')
+    // Check first few lines for 'use client' directive
+    const lines = content.split('\n').slice(0, 5)
+    return lines.some(line => {
+      const trimmed = line.trim()
+      return trimmed === "'use client'" ||
+             trimmed === '"use client"' ||
+             trimmed === "'use client';" ||
+             trimmed === '"use client";'
+    })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Generate a stable module ID from file path
+ */
+function generateModuleId(filePath: string, root: string): string {
+  const relative = path.relative(root, filePath)
+  // Remove extension and convert to module-like ID
+  return relative.replace(/\.[^.]+$/, '').replace(/[\/\\]/g, '_')
+}
+
+/**
+ * Scan directory for client components ('use client' files)
+ */
+function scanForClientComponents(dir: string, root: string, components: ClientComponent[]) {
+  if (!fs.existsSync(dir)) return
+
+  const entries = fs.readdirSync(dir, { withFileTypes: true })
 
   for (const entry of entries) {
-    if (entry.isDirectory()) {
-      // Skip special directories
-      if (['components', 'lib', 'utils', 'styles'].includes(entry.name)) {
-        continue
-      }
+    const fullPath = path.join(dir, entry.name)
 
-      // Build layout chain for child directories
-      // If this directory has a layout, pass it down to children
-      const childLayouts = layoutComponent
-        ? [...layouts, layoutComponent]
-        : layouts
-
-      // Handle dynamic route directories: [id]/
-      if (entry.name.startsWith('[') && entry.name.endsWith(']')) {
-        const param = entry.name.slice(1, -1)
-        scanDir(path.join(dir, entry.name), `${prefix}/:${param}`, routes, childLayouts)
-      } else {
-        // Regular directory
-        scanDir(path.join(dir, entry.name), `${prefix}/${entry.name}`, routes, childLayouts)
-      }
+    if (entry.isDirectory()) {
+      // Skip node_modules and build directories
+      if (['node_modules', 'dist', '.git'].includes(entry.name)) continue
+      scanForClientComponents(fullPath, root, components)
     } else {
-      // Check for route files
-      const fileName = entry.name
-
-      if (fileName === 'page.tsx' || fileName === 'page.jsx') {
-        pageComponent = path.join(dir, fileName)
-      } else if (fileName === 'get.ts' || fileName === 'get.tsx') {
-        getHandler = path.join(dir, fileName)
-      } else if (fileName === 'post.ts' || fileName === 'post.tsx') {
-        postHandler = path.join(dir, fileName)
-      } else if (fileName === 'layout.tsx' || fileName === 'layout.jsx') {
-        layoutComponent = path.join(dir, fileName)
+      // Check .tsx, .ts, .jsx, .js files
+      if (/\.(tsx?|jsx?)$/.test(entry.name) && hasUseClientDirective(fullPath)) {
+        const moduleId = generateModuleId(fullPath, root)
+        const name = path.basename(entry.name, path.extname(entry.name))
+        components.push({ filePath: fullPath, moduleId, name })
       }
     }
   }
+}
 
-  // If we found any route files in this directory, add a route entry
-  if (pageComponent || getHandler || postHandler) {
-    // Add layout to the route if any exist in the chain
-    const finalLayouts = layoutComponent
-      ? [...layouts, layoutComponent]
-      : layouts
+/**
+ * Merge the default ignored directories with the user's extra ones
+ */
+export function resolveIgnoredDirs(options: ScanOptions = {}): string[] {
+  return [...DEFAULT_IGNORED_DIRS, ...(options.ignoreDirs || [])]
+}
 
-    routes.push({
-      path: prefix || '/',
-      ...(pageComponent && { component: pageComponent }),
-      ...(getHandler && { get: getHandler }),
-      ...(postHandler && { post: postHandler }),
-      ...(finalLayouts.length > 0 && { layouts: finalLayouts }),
-    })
+/**
+ * Check whether a directory is excluded from routing
+ * Private folders (_name) and ignored directory names are never scanned
+ */
+export function isIgnoredDir(name: string, ignoreDirs: string[]): boolean {
+  return name.startsWith('_') || ignoreDirs.includes(name)
+}
+
+/**
+ * Check whether a directory is a route group: (name)/
+ * Groups organize routes (and can carry a layout) without adding a URL segment
+ */
+export function isRouteGroup(name: string): boolean {
+  return name.startsWith('(') && name.endsWith(')')
+}
+
+/**
+ * Append a directory to a route path prefix
+ * e.g. ('/blog', '[id]') → '/blog/:id', ('/blog', '(admin)') → '/blog'
+ */
+export function joinRoutePath(prefix: string, name: string): string {
+  return isRouteGroup(name) ? prefix : `${prefix}/${toPatternSegment(name)}`
+}
+
+/**
+ * Convert a route directory name to its URL pattern segment
+ * - [id]        → :id     (exactly one segment)
+ * - [...slug]   → :slug+  (one or more segments, params.slug is a string[])
+ * - [[...slug]] → :slug*  (zero or more segments, params.slug is a string[])
+ * - anything else is a static segment
+ */
+export function toPatternSegment(name: string): string {
+  if (name.startsWith('[[...') && name.endsWith(']]')) {
+    return `:${name.slice(5, -2)}*`
+  }
+  if (name.startsWith('[...') && name.endsWith(']')) {
+    return `:${name.slice(4, -1)}+`
   }
+  if (name.startsWith('[') && name.endsWith(']')) {
+    return `:${name.slice(1, -1)}`
+  }
+  return name
+}
+
+/**
+ * Check whether a pattern segment is a catch-all (:slug+ or :slug*)
+ */
+export function isCatchAllSegment(segment: string): boolean {
+  return segment.startsWith(':') && (segment.endsWith('+') || segment.endsWith('*'))
+}
+
+/**
+ * Extract param names from a route pattern
+ * e.g. '/docs/:version/:slug*' → ['version', 'slug']
+ */
+export function getRouteParams(routePath: string): string[] {
+  return routePath
+    .split('/')
+    .filter(s => s.startsWith(':'))
+    .map(s => isCatchAllSegment(s) ? s.slice(1, -1) : s.slice(1))
+}
+
+/**
+ * Rank a pattern segment by specificity (lower wins)
+ * static → :param → :param+ → :param*
+ */
+function segmentRank(segment: string): number {
+  if (!segment.startsWith(':')) return 0
+  if (segment.endsWith('+')) return 2
+  if (segment.endsWith('*')) return 3
+  return 1
+}
+
+/**
+ * Compare two route patterns for matching order
+ * Segments are compared left to right: static beats dynamic, dynamic beats
+ * catch-all. Ties fall back to segment count, then to the path itself, so the
+ * order never depends on the filesystem.
+ */
+export function compareRoutePaths(a: string, b: string): number {
+  const aSegments = a.split('/').filter(Boolean)
+  const bSegments = b.split('/').filter(Boolean)
+
+  for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+    const diff = segmentRank(aSegments[i]) - segmentRank(bSegments[i])
+    if (diff !== 0) return diff
+  }
+
+  if (aSegments.length !== bSegments.length) {
+    return aSegments.length - bSegments.length
+  }
+
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * The URL shapes a route pattern matches, with param names erased
+ * e.g. '/posts/:id' → ['/posts/[param]']
+ * Optional catch-alls also match their parent path, so they have two shapes:
+ * '/docs/:slug*' → ['/docs', '/docs/[...param]']
+ */
+function routeShapes(routePath: string): string[] {
+  const segments = routePath.split('/').filter(Boolean)
+  const shape = segments.map(seg => segmentRank(seg) === 0 ? seg : segmentRank(seg) === 1 ? '[param]' : '[...param]')
+  const shapes = ['/' + shape.join('/')]
+
+  if (segments.length > 0 && segmentRank(segments[segments.length - 1]) === 3) {
+    shapes.push('/' + shape.slice(0, -1).join('/'))
+  }
+
+  return shapes
+}
+
+/**
+ * Find two routes that would match the same URLs
+ * e.g. [id]/ and [slug]/ siblings, or the same path in two route groups
+ * Returns the first conflicting pair, or null if every route is unambiguous
+ */
+export function findRouteConflict<T extends { filePath: string; routePath: string }>(
+  routes: T[]
+): [T, T] | null {
+  const seen = new Map<string, T>()
+
+  for (const route of routes) {
+    for (const shape of routeShapes(route.routePath)) {
+      const existing = seen.get(shape)
+      if (existing && existing !== route) {
+        return [existing, route]
+      }
+      seen.set(shape, route)
+    }
+  }
+
+  return null
 }
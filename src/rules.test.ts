@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { canonicalUrl, fillPattern, findHeaders, findRedirect, matchPattern, normalizeBasePath, routeUrl, stripBasePath, withBasePath } from './rules.js'
+import type { HeaderRule } from './types.js'
+
+describe('matchPattern', () => {
+  it('matches params and catch-alls', () => {
+    expect(matchPattern('/blog/hello', '/blog/:slug')).toEqual({ slug: 'hello' })
+    expect(matchPattern('/docs/a/b', '/docs/:path+')).toEqual({ path: ['a', 'b'] })
+    expect(matchPattern('/docs', '/docs/:path*')).toEqual({ path: [] })
+  })
+
+  it('rejects other paths', () => {
+    expect(matchPattern('/docs', '/docs/:path+')).toBeNull()
+    expect(matchPattern('/blog/a/b', '/blog/:slug')).toBeNull()
+    expect(matchPattern('/news/a', '/blog/:slug')).toBeNull()
+  })
+})
+
+describe('fillPattern / routeUrl', () => {
+  it('fills destinations with matched params, leaving unknown names', () => {
+    expect(fillPattern('/posts/:slug', { slug: 'hello' })).toBe('/posts/hello')
+    expect(fillPattern('/handbook/:path*', { path: ['a', 'b'] })).toBe('/handbook/a/b')
+    expect(fillPattern('http://localhost:3000/:slug', { slug: 'x' })).toBe('http://localhost:3000/x')
+  })
+
+  it('encodes each segment of a route URL', () => {
+    expect(routeUrl('/docs/:slug+', { slug: ['a b', 'c'] })).toBe('/docs/a%20b/c')
+  })
+})
+
+describe('findRedirect', () => {
+  const rules = [
+    { source: '/blog/:slug', destination: '/posts/:slug', permanent: true },
+    { source: '/old', destination: '/new?from=old' },
+  ]
+
+  it('returns the first matching rule with its status, keeping the query string', () => {
+    expect(findRedirect(rules, '/blog/hello?ref=1')).toEqual({ url: '/posts/hello?ref=1', status: 308 })
+    expect(findRedirect(rules, '/old?ref=1')).toEqual({ url: '/new?from=old', status: 307 })
+    expect(findRedirect(rules, '/posts/hello')).toBeNull()
+  })
+})
+
+describe('findHeaders', () => {
+  it('merges the headers of every matching rule, later rules winning', () => {
+    const rules: HeaderRule[] = [
+      { source: '/api/:path*', headers: { 'Cache-Control': 'no-store', 'X-Api': '1' } },
+      { source: '/api/public/:path*', headers: { 'Cache-Control': 'public' } },
+    ]
+    expect(findHeaders(rules, '/api/public/feed?page=2')).toEqual({ 'Cache-Control': 'public', 'X-Api': '1' })
+    expect(findHeaders(rules, '/about')).toEqual({})
+  })
+})
+
+describe('basePath', () => {
+  it('normalizes to a leading slash and no trailing slash', () => {
+    expect(normalizeBasePath('docs/')).toBe('/docs')
+    expect(normalizeBasePath('/')).toBe('')
+    expect(normalizeBasePath(undefined)).toBe('')
+  })
+
+  it('strips the base path, or returns null outside it', () => {
+    expect(stripBasePath('/docs', '/docs')).toBe('/')
+    expect(stripBasePath('/docs?q=1', '/docs')).toBe('/?q=1')
+    expect(stripBasePath('/docs/intro', '/docs')).toBe('/intro')
+    expect(stripBasePath('/docsify', '/docs')).toBeNull()
+    expect(stripBasePath('/intro', '')).toBe('/intro')
+  })
+
+  it('prefixes app-relative URLs only', () => {
+    expect(withBasePath('/', '/docs')).toBe('/docs')
+    expect(withBasePath('/intro', '/docs')).toBe('/docs/intro')
+    expect(withBasePath('https://example.com/', '/docs')).toBe('https://example.com/')
+  })
+})
+
+describe('canonicalUrl', () => {
+  it("removes trailing slashes with 'never'", () => {
+    expect(canonicalUrl('/about/?q=1', 'never')).toBe('/about?q=1')
+    expect(canonicalUrl('/', 'never')).toBe('/')
+  })
+
+  it("adds a trailing slash with 'always', except to file-like paths", () => {
+    expect(canonicalUrl('/about?q=1', 'always')).toBe('/about/?q=1')
+    expect(canonicalUrl('/feed.xml', 'always')).toBe('/feed.xml')
+  })
+
+  it('serves both forms without a policy', () => {
+    expect(canonicalUrl('/about/', undefined)).toBe('/about/')
+  })
+})
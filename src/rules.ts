@@ -0,0 +1,173 @@
+/**
+ * Routing Rules
+ *
+ * Redirects, rewrites and custom headers from the plugin options. Sources use
+ * the route pattern syntax (/blog/:slug, /docs/:path*) and destinations can
+ * reuse the matched params (/posts/:slug).
+ *
+ * The basePath and trailingSlash options are handled here too: rules match
+ * paths relative to the base path, and page URLs redirect to their canonical
+ * trailing-slash form.
+ *
+ * contract.js applies every rule (see generateRoutingRules in generator.ts).
+ * The dev server answers redirects and adds headers itself, so responses carry
+ * real status codes and headers; rewrites are left to the contract.
+ */
+
+import type { HeaderRule, RedirectRule, TrailingSlash } from './types.js'
+
+/** Params matched from a pattern - catch-alls are string arrays */
+export type PatternParams = Record<string, string | string[]>
+
+/**
+ * Match a pathname against a route pattern, returning params or null
+ * Mirrors matchRoute() in the generated contract
+ */
+export function matchPattern(pathname: string, pattern: string): PatternParams | null {
+  const segments = pathname.split('/').filter(Boolean)
+  const patternSegments = pattern.split('/').filter(Boolean)
+  const params: PatternParams = {}
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const seg = patternSegments[i]
+
+    if (seg.startsWith(':') && (seg.endsWith('+') || seg.endsWith('*'))) {
+      const rest = segments.slice(i)
+      if (seg.endsWith('+') && rest.length === 0) return null
+      params[seg.slice(1, -1)] = rest
+      return params
+    }
+
+    if (i >= segments.length) return null
+
+    if (seg.startsWith(':')) {
+      params[seg.slice(1)] = segments[i]
+    } else if (seg !== segments[i]) {
+      return null
+    }
+  }
+
+  return segments.length === patternSegments.length ? params : null
+}
+
+/**
+ * Substitute :name params into a destination (catch-alls are joined with '/')
+ * Unknown names are left as-is, so ports in absolute URLs survive
+ */
+export function fillPattern(destination: string, params: PatternParams): string {
+  return destination.replace(/:(\w+)[+*]?/g, (match, name: string) =>
+    name in params ? ([] as string[]).concat(params[name]).join('/') : match
+  )
+}
+
+/**
+ * URL of a route pattern for concrete params, encoding each segment
+ * e.g. ('/docs/:slug+', { slug: ['a', 'b'] }) → '/docs/a/b'
+ */
+export function routeUrl(pattern: string, params: PatternParams): string {
+  const segments = pattern.split('/').filter(Boolean).flatMap(segment => {
+    if (!segment.startsWith(':')) return [segment]
+    const name = segment.replace(/^:|[+*]$/g, '')
+    return ([] as string[]).concat(params[name] ?? []).map(value => encodeURIComponent(value))
+  })
+  return `/${segments.join('/')}`
+}
+
+/**
+ * Status for a redirect rule
+ */
+export function redirectStatus(rule: RedirectRule): 307 | 308 {
+  return rule.permanent ? 308 : 307
+}
+
+/**
+ * First redirect rule matching a request URL
+ * The query string is carried over unless the destination has its own
+ */
+export function findRedirect(
+  rules: RedirectRule[],
+  url: string
+): { url: string; status: 307 | 308 } | null {
+  const [pathname, query] = splitUrl(url)
+
+  for (const rule of rules) {
+    const params = matchPattern(pathname, rule.source)
+    if (params) {
+      const destination = fillPattern(rule.destination, params)
+      return {
+        url: query && !destination.includes('?') ? `${destination}?${query}` : destination,
+        status: redirectStatus(rule),
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Headers of every header rule matching a request URL (later rules win)
+ */
+export function findHeaders(rules: HeaderRule[], url: string): Record<string, string> {
+  const [pathname] = splitUrl(url)
+  const headers: Record<string, string> = {}
+
+  for (const rule of rules) {
+    if (matchPattern(pathname, rule.source)) {
+      Object.assign(headers, rule.headers)
+    }
+  }
+
+  return headers
+}
+
+/**
+ * Normalize the basePath option to '' or '/segment' (leading, no trailing slash)
+ */
+export function normalizeBasePath(basePath: string | undefined): string {
+  const trimmed = (basePath || '').replace(/^\/+|\/+$/g, '')
+  return trimmed ? `/${trimmed}` : ''
+}
+
+/**
+ * Remove the base path from a URL - null when the URL is outside it
+ */
+export function stripBasePath(url: string, basePath: string): string | null {
+  if (!basePath) return url
+  if (url === basePath) return '/'
+  if (url.startsWith(`${basePath}/`) || url.startsWith(`${basePath}?`)) {
+    const rest = url.slice(basePath.length)
+    return rest.startsWith('/') ? rest : `/${rest}`
+  }
+  return null
+}
+
+/**
+ * Prefix an app-relative URL with the base path (absolute URLs are left alone)
+ */
+export function withBasePath(url: string, basePath: string): string {
+  if (!basePath || !url.startsWith('/') || url.startsWith('//')) return url
+  return url === '/' ? basePath : `${basePath}${url}`
+}
+
+/**
+ * Canonical form of a page URL under a trailing slash policy, keeping the query
+ * string. 'always' skips file-like paths (last segment contains a dot).
+ */
+export function canonicalUrl(url: string, trailingSlash: TrailingSlash | undefined): string {
+  const [pathname, query] = splitUrl(url)
+  let canonical = pathname
+
+  if (trailingSlash === 'never' && pathname.length > 1 && pathname.endsWith('/')) {
+    canonical = pathname.replace(/\/+$/, '') || '/'
+  } else if (trailingSlash === 'always' && !pathname.endsWith('/')) {
+    const last = pathname.slice(pathname.lastIndexOf('/') + 1)
+    if (!last.includes('.')) canonical = `${pathname}/`
+  }
+
+  return query ? `${canonical}?${query}` : canonical
+}
+
+function splitUrl(url: string): [string, string] {
+  const index = url.indexOf('?')
+  return index === -1 ? [url, ''] : [url.slice(0, index), url.slice(index + 1)]
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { scanProject } from './routes.js'
+import { generateRobots, generateSitemap } from './sitemap.js'
+import { writeProject } from './test-utils.js'
+
+const page = 'export default function Page() { return null }'
+
+/** <loc> URLs of a sitemap */
+function locations(sitemap: string): string[] {
+  return [...sitemap.matchAll(/<loc>(.*)<\/loc>/g)].map(match => match[1])
+}
+
+describe('generateSitemap', () => {
+  it('lists static pages, and dynamic pages for their generateStaticParams()', async () => {
+    const root = writeProject({
+      'app/page.tsx': page,
+      'app/posts/[id]/page.tsx': `export async function generateStaticParams() { return [{ id: '1' }, { id: '2' }] }\n${page}`,
+      'app/drafts/[id]/page.tsx': page,
+    })
+
+    const sitemap = await generateSitemap(await scanProject(root), { siteUrl: 'https://example.com/' })
+    expect(locations(sitemap)).toEqual(['https://example.com/', 'https://example.com/posts/1', 'https://example.com/posts/2'])
+  })
+
+  it('finds generateStaticParams re-exported from another file', async () => {
+    const root = writeProject({
+      'app/posts/params.ts': `export async function generateStaticParams() { return [{ id: 'a' }] }`,
+      'app/posts/[id]/page.tsx': `export { generateStaticParams } from '../params'\n${page}`,
+    })
+
+    expect(locations(await generateSitemap(await scanProject(root)))).toEqual(['/posts/a'])
+  })
+
+  it('does not load pages that only mention generateStaticParams', async () => {
+    const root = writeProject({
+      'app/posts/[id]/page.tsx': `// export async function generateStaticParams() {}\nthrow new Error('loaded')\n${page}`,
+    })
+
+    expect(locations(await generateSitemap(await scanProject(root)))).toEqual([])
+  })
+
+  it('passes the default entries through app/sitemap.ts', async () => {
+    const root = writeProject({
+      'app/page.tsx': page,
+      'app/sitemap.ts': `export default (entries: any[]) => [...entries, { url: '/extra', priority: 0.5 }]`,
+    })
+
+    const sitemap = await generateSitemap(await scanProject(root), { basePath: '/docs' })
+    expect(locations(sitemap)).toEqual(['/docs', '/docs/extra'])
+    expect(sitemap).toContain('<priority>0.5</priority>')
+  })
+})
+
+describe('generateRobots', () => {
+  it('allows everything and points at the sitemap by default', async () => {
+    const root = writeProject({ 'app/page.tsx': page })
+    expect(await generateRobots(await scanProject(root), { siteUrl: 'https://example.com' })).toBe(
+      'User-agent: *\nAllow: /\n\nSitemap: https://example.com/sitemap.xml\n'
+    )
+  })
+})
@@ -0,0 +1,152 @@
+// Addis Sitemap & Robots Generator
+// Builds sitemap.xml from the route table (or app/sitemap.ts) and robots.txt
+// (from app/robots.ts) - served by the dev server, written by the production build
+
+import { importProjectModule, projectModuleExports } from './module-loader.js'
+import { localizeUrl } from './i18n.js'
+import { canonicalUrl, normalizeBasePath, routeUrl, withBasePath } from './rules.js'
+import type { I18nConfig, ProjectStructure, TrailingSlash } from './types.js'
+
+/** URLs (relative to the base path) both files are served at */
+export const SITEMAP_URL = '/sitemap.xml'
+export const ROBOTS_URL = '/robots.txt'
+
+/**
+ * One sitemap entry - the default export of app/sitemap.ts returns a list
+ *
+ *   export default async function sitemap(routes) {
+ *     return [...routes, { url: 'https://example.com/feed', changeFrequency: 'daily' }]
+ *   }
+ *
+ * It receives the default entries, so it can extend or filter them.
+ */
+export interface SitemapEntry {
+  /** Absolute URL, or a path resolved against siteUrl and the base path */
+  url: string
+  lastModified?: string | Date
+  changeFrequency?: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never'
+  priority?: number
+}
+
+/** Crawler rules - the default export of app/robots.ts returns them */
+export interface Robots {
+  rules: RobotsRule | RobotsRule[]
+  /** Sitemap URLs (default: this site's sitemap.xml) */
+  sitemap?: string | string[]
+  host?: string
+}
+
+export interface RobotsRule {
+  userAgent?: string | string[]
+  allow?: string | string[]
+  disallow?: string | string[]
+  crawlDelay?: number
+}
+
+export interface SiteOptions {
+  /** Public origin, e.g. 'https://example.com' */
+  siteUrl?: string
+  basePath?: string
+  trailingSlash?: TrailingSlash
+  /** Default entries list every page once per locale */
+  i18n?: I18nConfig
+}
+
+/**
+ * Generate sitemap.xml
+ * Default entries are the static pages plus every params object the dynamic
+ * pages' generateStaticParams() return
+ */
+export async function generateSitemap(structure: ProjectStructure, options: SiteOptions = {}): Promise<string> {
+  let entries = await defaultSitemapEntries(structure, options.i18n)
+
+  if (structure.sitemap) {
+    const sitemap = (await importProjectModule(structure.sitemap.filePath)).default
+    if (typeof sitemap !== 'function') {
+      throw new Error(`${structure.sitemap.filePath} must export a default function returning sitemap entries`)
+    }
+    entries = await sitemap(entries)
+  }
+
+  const urls = entries.map(entry => {
+    const fields = [
+      `    <loc>${escapeXml(absoluteUrl(entry.url, options))}</loc>`,
+      entry.lastModified ? `    <lastmod>${new Date(entry.lastModified).toISOString()}</lastmod>` : '',
+      entry.changeFrequency ? `    <changefreq>${entry.changeFrequency}</changefreq>` : '',
+      entry.priority !== undefined ? `    <priority>${entry.priority}</priority>` : '',
+    ].filter(Boolean)
+    return `  <url>\n${fields.join('\n')}\n  </url>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`
+}
+
+/**
+ * Generate robots.txt - app/robots.ts, or allow everything and point at the sitemap
+ */
+export async function generateRobots(structure: ProjectStructure, options: SiteOptions = {}): Promise<string> {
+  let robots: Robots = { rules: { userAgent: '*', allow: '/' } }
+
+  if (structure.robots) {
+    const robotsExport = (await importProjectModule(structure.robots.filePath)).default
+    robots = typeof robotsExport === 'function' ? await robotsExport() : robotsExport
+  }
+
+  const lines = ([] as RobotsRule[]).concat(robots.rules).flatMap(rule => [
+    ...([] as string[]).concat(rule.userAgent ?? '*').map(agent => `User-agent: ${agent}`),
+    ...([] as string[]).concat(rule.allow ?? []).map(allow => `Allow: ${allow}`),
+    ...([] as string[]).concat(rule.disallow ?? []).map(disallow => `Disallow: ${disallow}`),
+    ...(rule.crawlDelay !== undefined ? [`Crawl-delay: ${rule.crawlDelay}`] : []),
+    '',
+  ])
+
+  if (robots.host) lines.push(`Host: ${robots.host}`)
+  const sitemaps = robots.sitemap ?? absoluteUrl(SITEMAP_URL, { ...options, trailingSlash: undefined })
+  lines.push(...([] as string[]).concat(sitemaps).map(sitemap => `Sitemap: ${sitemap}`))
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Static page paths, plus dynamic ones filled from generateStaticParams()
+ * (in every locale, with the i18n option)
+ */
+async function defaultSitemapEntries(structure: ProjectStructure, i18n?: I18nConfig): Promise<SitemapEntry[]> {
+  const paths: string[] = []
+
+  for (const page of structure.pages) {
+    if (!page.routePath.includes(':')) {
+      paths.push(page.routePath)
+      continue
+    }
+
+    if (!(await projectModuleExports(page.filePath)).includes('generateStaticParams')) {
+      continue
+    }
+
+    const { generateStaticParams } = await importProjectModule(page.filePath)
+    for (const params of await generateStaticParams()) {
+      paths.push(routeUrl(page.routePath, params))
+    }
+  }
+
+  const locales = i18n ? i18n.locales : [null]
+  return paths.flatMap(url => locales.map(locale => ({ url: i18n && locale ? localizeUrl(url, locale, i18n) : url })))
+}
+
+/**
+ * Absolute URL of a path under the base path (absolute URLs are left alone)
+ */
+function absoluteUrl(url: string, options: SiteOptions): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url)) return url
+  const pathname = canonicalUrl(withBasePath(url, normalizeBasePath(options.basePath)), options.trailingSlash)
+  return `${(options.siteUrl || '').replace(/\/+$/, '')}${pathname}`
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+}
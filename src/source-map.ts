@@ -0,0 +1,137 @@
+// Addis Source Maps
+// contract.js.map maps the route modules section of contract.js back to the
+// app/ and api/ files (see bundleRouteModules in generator.ts). The dev server
+// uses it to rewrite tana-edge stack traces before printing them.
+
+import * as path from 'path'
+
+/** Source map v3, as esbuild writes it */
+export interface SourceMap {
+  version: 3
+  sources: string[]
+  sourcesContent?: (string | null)[]
+  names: string[]
+  mappings: string
+  file?: string
+}
+
+/** Original position of a generated line and column (1-based line, 0-based column) */
+export interface OriginalPosition {
+  source: string
+  line: number
+  column: number
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/** contract.js locations in a stack trace - 'file:///.../contract.js:120:9' or 'contract.js:120:9' */
+const CONTRACT_LOCATION = /(?:[\w.+-]+:\/\/)?[^\s()'"]*contract\.js:(\d+):(\d+)/g
+
+/**
+ * Shift a source map down by a number of generated lines - for code placed
+ * after other sections in contract.js
+ */
+export function offsetSourceMap(map: SourceMap, lines: number): SourceMap {
+  return { ...map, mappings: ';'.repeat(lines) + map.mappings }
+}
+
+/**
+ * Create a lookup from generated contract.js positions to original positions
+ * Sources resolve against the map's directory
+ */
+export function createSourceMapper(map: SourceMap, mapDir: string): (line: number, column: number) => OriginalPosition | null {
+  const lines = decodeMappings(map.mappings)
+
+  return (line, column) => {
+    // Last segment starting at or before the column
+    const segments = lines[line - 1] ?? []
+    let match: number[] | undefined
+    for (const segment of segments) {
+      if (segment[0] > column) break
+      if (segment.length >= 4) match = segment
+    }
+    if (!match) return null
+
+    return {
+      source: path.resolve(mapDir, map.sources[match[1]]),
+      line: match[2] + 1,
+      column: match[3],
+    }
+  }
+}
+
+/**
+ * Rewrite the contract.js locations of a stack trace to original files
+ * (relative to root). Locations outside the route modules - the generated
+ * routers - are left as they are.
+ */
+export function mapStackTrace(
+  text: string,
+  lookup: (line: number, column: number) => OriginalPosition | null,
+  root: string
+): string {
+  return text.replace(CONTRACT_LOCATION, (location, line: string, column: string) => {
+    // Stack columns are 1-based, source map columns 0-based
+    const original = lookup(Number(line), Math.max(Number(column) - 1, 0))
+    if (!original) return location
+    return `${path.relative(root, original.source)}:${original.line}:${original.column + 1}`
+  })
+}
+
+/**
+ * Whether text contains a contract.js location
+ */
+export function hasContractLocation(text: string): boolean {
+  CONTRACT_LOCATION.lastIndex = 0
+  return CONTRACT_LOCATION.test(text)
+}
+
+/**
+ * Decode VLQ mappings into segments per generated line
+ * [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?]
+ * with every field absolute
+ */
+function decodeMappings(mappings: string): number[][][] {
+  const lines: number[][][] = []
+  const state = [0, 0, 0, 0, 0]
+
+  for (const line of mappings.split(';')) {
+    const segments: number[][] = []
+    state[0] = 0
+
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue
+      const values = decodeVlq(encoded)
+      const segment: number[] = []
+      values.forEach((value, i) => {
+        state[i] += value
+        segment.push(state[i])
+      })
+      segments.push(segment)
+    }
+
+    lines.push(segments)
+  }
+
+  return lines
+}
+
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of encoded) {
+    const digit = BASE64.indexOf(char)
+    value += (digit & 31) << shift
+    if (digit & 32) {
+      shift += 5
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1)
+      value = 0
+      shift = 0
+    }
+  }
+
+  return values
+}
@@ -0,0 +1,22 @@
+// Addis Test Utilities
+// Fixture projects for unit tests - written to a temp directory that is
+// removed once the test finishes
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { onTestFinished } from 'vitest'
+
+/**
+ * Create a project directory with the given files (paths relative to it)
+ * Call inside a test - the directory is removed when the test finishes
+ */
+export function writeProject(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'addis-test-'))
+  onTestFinished(() => fs.rmSync(root, { recursive: true, force: true }))
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    fs.writeFileSync(path.join(root, file), content)
+  }
+  return root
+}
@@ -65,14 +65,257 @@ export interface AddisPluginOptions {
    * @default auto-detect
    */
   stylesheet?: string | false
+
+  /**
+   * Extra directory names to skip when scanning app/ and api/ for routes
+   * Extends the defaults: components, lib, utils, styles
+   * Route groups (group)/ never add a URL segment and private folders
+   * (_name)/ are always skipped
+   * @example ['hooks', 'fixtures']
+   */
+  ignoreDirs?: string[]
+
+  /**
+   * Redirect URLs matching a pattern - applied by the dev server and the contract
+   * @example [{ source: '/blog/:slug', destination: '/posts/:slug', permanent: true }]
+   */
+  redirects?: RedirectRule[]
+
+  /**
+   * Serve a different route without changing the URL (applied by the contract)
+   * A rewrite stays on its side: page URLs to pages, /api URLs to API handlers
+   * @example [{ source: '/docs/:path*', destination: '/handbook/:path*' }]
+   */
+  rewrites?: RewriteRule[]
+
+  /**
+   * Extra response headers for URLs matching a pattern
+   * Page responses only get them from the dev server - Page() cannot set headers
+   * @example [{ source: '/api/:path*', headers: { 'Cache-Control': 'no-store' } }]
+   */
+  headers?: HeaderRule[]
+
+  /**
+   * Sub-path the app is mounted under (e.g. '/docs' serves app/page.tsx at /docs
+   * and API handlers at /docs/api). Rule sources and destinations, and paths
+   * passed to redirect(), stay relative to it.
+   * @default '' (mounted at /)
+   */
+  basePath?: string
+
+  /**
+   * Canonical form of page URLs - other URLs get a 308 redirect
+   * 'always' adds a trailing slash (except to file-like paths), 'never' removes it
+   * @default undefined (both forms are served)
+   */
+  trailingSlash?: TrailingSlash
+
+  /**
+   * Locale-prefixed routing - /fr/about renders app/about/page.tsx with
+   * locale 'fr', unprefixed URLs are the default locale. Visitors of / are sent
+   * to their preferred locale (locale cookie, then Accept-Language).
+   * Rule sources and redirect() paths stay unprefixed.
+   * @example { locales: ['en', 'fr', 'de'], defaultLocale: 'en' }
+   */
+  i18n?: I18nConfig
+
+  /**
+   * Public origin of the site (e.g. 'https://example.com'), used for the
+   * absolute URLs of sitemap.xml and robots.txt. The dev server uses its own.
+   */
+  siteUrl?: string
+
+  /**
+   * Prerender pages at build time - static routes, plus dynamic routes for the
+   * params their generateStaticParams() export returns. tana-edge serves the
+   * prerendered HTML / Flight files without calling Page(). Pages behind
+   * middleware, pages with cache tags, pages reading searchParams and renders
+   * that don't answer 200 (notFound(), error.tsx, redirects) are never
+   * prerendered.
+   * @default false
+   */
+  prerender?: boolean
+}
+
+/** Trailing slash policy for page URLs */
+export type TrailingSlash = 'always' | 'never'
+
+/** Locales of an app (see AddisPluginOptions.i18n) */
+export interface I18nConfig {
+  /** Supported locales - the URL prefixes (e.g. ['en', 'fr', 'pt-BR']) */
+  locales: string[]
+  /** Locale of unprefixed URLs (one of locales) */
+  defaultLocale: string
+  /**
+   * Send visitors of / to their preferred locale
+   * @default true
+   */
+  localeDetection?: boolean
+  /**
+   * Cookie holding a locale the visitor chose - wins over Accept-Language
+   * @default 'ADDIS_LOCALE'
+   */
+  localeCookie?: string
+}
+
+/**
+ * Redirect rule - sources use the route pattern syntax (/blog/:slug, /docs/:path*)
+ * and destinations can reuse the matched params (/posts/:slug)
+ */
+export interface RedirectRule {
+  source: string
+  /** Path or absolute URL */
+  destination: string
+  /** 308 Permanent Redirect instead of 307 Temporary Redirect */
+  permanent?: boolean
 }
 
+/** Rewrite rule - same pattern syntax as RedirectRule */
+export interface RewriteRule {
+  source: string
+  destination: string
+}
+
+/** Response headers for every URL matching source */
+export interface HeaderRule {
+  source: string
+  headers: Record<string, string>
+}
+
+/**
+ * Plugin options compiled into contract.js, so tana-edge routes like the dev server
+ */
+export interface ContractOptions {
+  redirects?: RedirectRule[]
+  rewrites?: RewriteRule[]
+  headers?: HeaderRule[]
+  basePath?: string
+  trailingSlash?: TrailingSlash
+  i18n?: I18nConfig
+}
+
+/**
+ * Size of the route modules in contract.js - they are bundled in one pass,
+ * so files several routes import are included once
+ */
+export interface RouteModuleStats {
+  /** Route files bundled (pages, layouts, boundaries, middleware, handlers) */
+  modules: number
+  /** Source files imported by more than one route file */
+  sharedFiles: number
+  /** Bytes of the route modules bundled together */
+  size: number
+  /**
+   * Bytes of the route modules bundled one file at a time (shared files repeated)
+   * Measured by one-off builds - generateContract() calls with a cache skip it
+   */
+  separateSize?: number
+  /** Bytes each route file adds to the bundle itself, by absolute path (imports not included) */
+  moduleSizes: Record<string, number>
+}
+
+/** API handler file names in api/ (get.ts, post.ts, ...), one per HTTP method */
+export type ApiMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head' | 'options'
+
+export interface RouteFile {
+  /** File path */
+  filePath: string
+  /** Route path (e.g., '/', '/posts', '/posts/:id', '/docs/:slug+') */
+  routePath: string
+  /** Type of file */
+  type: 'page' | 'layout' | 'error' | 'not-found' | 'loading' | 'middleware' | ApiMethod | 'init' | 'contract' | 'sitemap' | 'robots'
+  /** Dynamic params (e.g., ['id'] for /posts/:id, ['slug'] for /docs/:slug+) */
+  params?: string[]
+  /** Segment chain from root → leaf (pages only) */
+  segments?: RouteSegment[]
+  /** middleware.ts files from root → leaf (pages and API handlers) */
+  middleware?: string[]
+}
+
+/**
+ * Special files attached to one directory level of app/
+ * A page is rendered inside the segments of every directory above it
+ */
+export interface RouteSegment {
+  /** layout.tsx - wraps everything below this directory */
+  layout?: string
+  /** error.tsx - rendered inside the layout when anything below throws */
+  error?: string
+  /** not-found.tsx - rendered inside the layout when anything below calls notFound() */
+  notFound?: string
+  /** loading.tsx - Suspense fallback while everything below this directory streams */
+  loading?: string
+}
+
+export interface ClientComponent {
+  /** File path */
+  filePath: string
+  /** Unique module ID for Flight protocol reference */
+  moduleId: string
+  /** Component name (from file or export) */
+  name: string
+}
+
+export interface ProjectStructure {
+  /** Project directory that was scanned */
+  root: string
+  /** RSC pages from app/ */
+  pages: RouteFile[]
+  /** Layouts from app/ (layout.tsx), wrapped around pages root → leaf */
+  layouts: RouteFile[]
+  /** Error boundaries from app/ (error.tsx) */
+  errorPages: RouteFile[]
+  /** Not-found boundaries from app/ (not-found.tsx) */
+  notFoundPages: RouteFile[]
+  /** Suspense fallbacks from app/ (loading.tsx) */
+  loadingPages: RouteFile[]
+  /** Segment of app/ itself - its not-found.tsx also handles unmatched URLs */
+  rootSegment?: RouteSegment
+  /** Middleware from app/ and api/ (middleware.ts), run outer → inner */
+  middleware: RouteFile[]
+  /** middleware.ts directly in app/ and api/ - also runs for unmatched URLs */
+  rootMiddleware: { app?: string; api?: string }
+  /** API GET handlers from api/ */
+  apiGet: RouteFile[]
+  /** API POST handlers from api/ */
+  apiPost: RouteFile[]
+  /** API PUT handlers from api/ */
+  apiPut: RouteFile[]
+  /** API PATCH handlers from api/ */
+  apiPatch: RouteFile[]
+  /** API DELETE handlers from api/ */
+  apiDelete: RouteFile[]
+  /** API HEAD handlers from api/ (optional - HEAD falls back to GET) */
+  apiHead: RouteFile[]
+  /** API OPTIONS handlers from api/ (optional - OPTIONS is answered by default) */
+  apiOptions: RouteFile[]
+  /** app/sitemap.ts - entries of /sitemap.xml (default: the static routes) */
+  sitemap?: RouteFile
+  /** app/robots.ts - rules of /robots.txt (default: allow everything) */
+  robots?: RouteFile
+  /** Blockchain init from blockchain/init.ts */
+  init?: RouteFile
+  /** Blockchain contract handler from blockchain/contract.ts */
+  contract?: RouteFile
+  /** Client components (files with 'use client' directive) */
+  clientComponents: ClientComponent[]
+}
+
+/**
+ * Route manifest written to .addis/manifest.json
+ * Derived from ProjectStructure, so it lists exactly what contract.js serves
+ */
 export interface RouteManifest {
   routes: Array<{
     path: string
     component?: string    // page.tsx component (optional)
     get?: string         // get.ts handler (optional)
     post?: string        // post.ts handler (optional)
+    put?: string         // put.ts handler (optional)
+    patch?: string       // patch.ts handler (optional)
+    delete?: string      // delete.ts handler (optional)
+    head?: string        // head.ts handler (optional)
+    options?: string     // options.ts handler (optional)
     layouts?: string[]   // layout chain from root → leaf (optional)
   }>
 }
@@ -80,3 +323,11 @@ export interface RouteManifest {
 // Virtual module IDs for client-side hydration
 export const VIRTUAL_HYDRATE_ID = 'virtual:addis-hydrate'
 export const RESOLVED_VIRTUAL_HYDRATE_ID = '\0' + VIRTUAL_HYDRATE_ID
+
+// Virtual module ID for the typed API client
+export const VIRTUAL_API_ID = 'virtual:addis-api'
+export const RESOLVED_VIRTUAL_API_ID = '\0' + VIRTUAL_API_ID
+
+// Virtual module ID for locale-aware links
+export const VIRTUAL_I18N_ID = 'virtual:addis-i18n'
+export const RESOLVED_VIRTUAL_I18N_ID = '\0' + VIRTUAL_I18N_ID
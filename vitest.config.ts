@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    // Unit tests only - *.spec.ts files are Playwright end-to-end tests
+    include: ['src/**/*.test.ts'],
+  },
+})